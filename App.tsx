@@ -1,71 +1,592 @@
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality, Blob as GeminiBlob } from '@google/genai';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { Message, Suggestion, SessionStatus } from './types';
+import { Message, Suggestion, SessionError, VoiceActivity, SessionMode, ScoreCard, SavedSession, ExportFormat, AudioSource, KnowledgeDocument, StudyReport, Flashcard, ReviewGrade, SessionRecording, ConsentRecord, AudioSettings, SourceAnalysers, LanguageSettings, SessionProfile, OutlineSection, NotesSettings } from './types';
 import StatusIndicator from './components/StatusIndicator';
 import AssistantUI from './components/AssistantUI';
+import SessionHistory from './components/SessionHistory';
+import KnowledgeDocuments from './components/KnowledgeDocuments';
+import StudyReportView from './components/StudyReportView';
+import FlashcardDeck from './components/FlashcardDeck';
+import FlashcardReview from './components/FlashcardReview';
+import ConsentDialog from './components/ConsentDialog';
+import CopyButton from './components/CopyButton';
+import AudioSettingsPanel from './components/AudioSettingsPanel';
+import CaptionsView from './components/CaptionsView';
+import LanguageSettingsPanel from './components/LanguageSettingsPanel';
+import SearchPanel from './components/SearchPanel';
+import ProfilePanel from './components/ProfilePanel';
+import AudioFilePicker from './components/AudioFilePicker';
+import NotesSettingsPanel from './components/NotesSettingsPanel';
+import OutlinePanel from './components/OutlinePanel';
+import { saveSession, getSession, renameSession, deleteSession } from './services/sessionStore';
+import { generateStudyReport } from './services/studyReport';
+import { summariseStretch, buildOutline, uncoveredTurns } from './services/sessionOutline';
+import { listFlashcards, saveFlashcards, deleteFlashcard } from './services/flashcardStore';
+import { listDocuments, replaceDocuments } from './services/documentStore';
+import { listProfiles, saveProfiles, importProfiles, deleteProfile } from './services/profileStore';
+import { saveRecording, getRecording } from './services/recordingStore';
+import { createSessionRecorder, isRecordingSupported, SessionRecorder } from './services/sessionRecorder';
+import { loadAudioSettings, saveAudioSettings, loadLanguageSettings, saveLanguageSettings, loadNotesSettings, saveNotesSettings } from './services/preferences';
+import { translateTurn } from './services/translation';
+import { downloadSession } from './utils/transcriptExport';
+import { CardDraft, extractCardDrafts } from './utils/flashcards';
+import { initialSchedule, scheduleReview } from './utils/spacedRepetition';
+import { describeCapture, buildDisclosureMessage } from './utils/consent';
+import { SearchResult, SearchableSession } from './utils/search';
+import { createLiveProvider, isMockProvider } from './services/providers';
+import { useSessionMachine, isSessionRunning, isSessionStarting, isCapturePaused, sessionErrorOf } from './hooks/useSessionMachine';
+import { SESSION_ERROR_COPY, SessionFailure, sessionError, toSessionError, describeSessionError } from './utils/sessionErrors';
+import { LiveTranscriptionSession, AudioChunk } from './services/liveProvider';
+import { buildIndex, search, RetrievalIndex } from './utils/retrieval';
+import { createSourceEnergyTracker, measureRms, TranscriptSegment } from './utils/speakerAttribution';
+import { decode, decodeAudioData, createBlob } from './utils/audio';
+import { createPcmCaptureNode, TARGET_SAMPLE_RATE } from './utils/pcmCapture';
+import { createVoiceActivityDetector, createSpeechGate, VoiceActivityDetector, SpeechGate } from './utils/vad';
+import { decodeAudioFileToPcm, createPcmFeeder, PcmFeeder } from './utils/audioFile';
+import {
+  buildAssistInstruction,
+  buildRehearsalInstruction,
+  buildTemplateInstruction,
+  buildResumeContext,
+  buildRetrievedContext,
+  recordScoreDeclaration,
+  suggestionCardDeclaration,
+  parseSuggestionCard,
+  typedMessageTag,
+  formatTypedMessage,
+  REHEARSAL_KICKOFF
+} from './utils/instructions';
+
+// 256 ms of 16 kHz audio per message to the model
+const CAPTURE_FRAME_SIZE = 4096;
+
+const formatClock = (seconds: number) => {
+  const total = Math.floor(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+// Offline analysis pads the file with silence and waits this long for the last turn before ending the session
+const FILE_TRAILING_SILENCE_SECONDS = 2;
+const FILE_FINISH_GRACE_MS = 8000;
+
+// Chunks of uploaded documents sent as context after each finalised turn
+const RETRIEVAL_TOP_K = 3;
+
+const MAX_RECONNECT_ATTEMPTS = 6;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+// Audio captured while reconnecting is kept for at most this long and replayed once back online
+const RECONNECT_BUFFER_SECONDS = 20;
+const MAX_BUFFERED_FRAMES = Math.ceil(RECONNECT_BUFFER_SECONDS * TARGET_SAMPLE_RATE / CAPTURE_FRAME_SIZE);
+
+const CAPTURE_FRAME_MS = CAPTURE_FRAME_SIZE / TARGET_SAMPLE_RATE * 1000;
+// Voice detection looks at each source in 32 ms frames, much finer than what is streamed
+const VAD_FRAME_SIZE = 512;
+const VAD_FRAME_MS = VAD_FRAME_SIZE / TARGET_SAMPLE_RATE * 1000;
+// A detected speech start older than this when its first transcript arrives is not used as the turn start
+const MAX_SPEECH_ONSET_LAG_MS = 10000;
+const VOICE_STATS_REFRESH_MS = 1000;
+
+// Where session audio comes from: live capture or a decoded file. start() runs once the session has opened.
+interface AudioInput {
+  start: () => void;
+}
+
+interface ActiveRecording {
+  recorder: SessionRecorder;
+  startedAt: Date;
+}
+
+// Silence gating for one session: a detector per captured source and a gate in front of the stream
+interface VoiceGate {
+  detectors: Partial<Record<AudioSource, VoiceActivityDetector>>;
+  gate: SpeechGate<Int16Array>;
+  bytesSent: number;
+  bytesSaved: number;
+  reportedAt: number;
+}
 
 const App: React.FC = () => {
-  const [status, setStatus] = useState<SessionStatus>({
-    isActive: false,
-    isConnecting: false,
-    isMicActive: false,
-    error: null,
-  });
+  const { state: sessionState, stateRef: sessionStateRef, send: sendSessionEvent } = useSessionMachine();
+  const isSessionActive = isSessionRunning(sessionState);
+  const activeError = sessionErrorOf(sessionState);
+  // Problems outside a session's lifecycle, such as a failed export, that should not end anything
+  const [notice, setNotice] = useState<SessionError | null>(null);
   
   const [messages, setMessages] = useState<Message[]>([]);
   const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
   const [knowledgeBase, setKnowledgeBase] = useState<string>('');
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [mode, setMode] = useState<SessionMode>('assist');
+  const [profiles, setProfiles] = useState<SessionProfile[]>([]);
+  const [activeProfile, setActiveProfile] = useState<SessionProfile | null>(null);
+  const [scoreCards, setScoreCards] = useState<ScoreCard[]>([]);
+  const [sidebarView, setSidebarView] = useState<'setup' | 'history' | 'flashcards'>('setup');
+  const [openSessionId, setOpenSessionId] = useState<string | null>(null);
+  const [mainView, setMainView] = useState<'session' | 'report' | 'review'>('session');
+  const [isCaptionsOpen, setIsCaptionsOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [focusTarget, setFocusTarget] = useState<{ type: 'message' | 'card'; id: string; nonce: number } | null>(null);
+  const [report, setReport] = useState<StudyReport | null>(null);
+  const [isGeneratingReport, setIsGeneratingReport] = useState(false);
+  const [reportError, setReportError] = useState<string | null>(null);
+  const [outline, setOutline] = useState<OutlineSection[]>([]);
+  const [isSummarising, setIsSummarising] = useState(false);
+  const [outlineError, setOutlineError] = useState<string | null>(null);
+  const [sessionStartedAt, setSessionStartedAt] = useState<Date | null>(null);
+  const [notesSettings, setNotesSettings] = useState<NotesSettings>(loadNotesSettings);
+  const [flashcards, setFlashcards] = useState<Flashcard[]>([]);
+  const [recordAudio, setRecordAudio] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [sessionAudio, setSessionAudio] = useState<{ url: string; startedAt: Date } | null>(null);
+  const [isConsentOpen, setIsConsentOpen] = useState(false);
+  const [consent, setConsent] = useState<ConsentRecord | null>(null);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(loadAudioSettings);
+  const [languageSettings, setLanguageSettings] = useState<LanguageSettings>(loadLanguageSettings);
+  const [analysers, setAnalysers] = useState<SourceAnalysers | null>(null);
+  const [voiceActivity, setVoiceActivity] = useState<VoiceActivity | null>(null);
+  const [isAudioPanelOpen, setIsAudioPanelOpen] = useState(false);
+  const [analysisFile, setAnalysisFile] = useState<File | null>(null);
+  const [analysisSpeed, setAnalysisSpeed] = useState(1);
+  const [fileProgress, setFileProgress] = useState<{
+    fileName: string;
+    positionSeconds: number;
+    durationSeconds: number;
+    isFinished: boolean;
+  } | null>(null);
   
   const [streamingInput, setStreamingInput] = useState('');
+  const [streamingInputRole, setStreamingInputRole] = useState<AudioSource>('local');
   const [streamingOutput, setStreamingOutput] = useState('');
   
-  const sessionRef = useRef<any>(null);
+  const sessionRef = useRef<LiveTranscriptionSession | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const micStreamRef = useRef<MediaStream | null>(null);
   const systemStreamRef = useRef<MediaStream | null>(null);
+  const outputAudioContextRef = useRef<AudioContext | null>(null);
+  const nextPlaybackTimeRef = useRef(0);
+  const playbackSourcesRef = useRef(new Set<AudioBufferSourceNode>());
+  const currentSessionRef = useRef<SavedSession | null>(null);
+  const connectionGenerationRef = useRef(0);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<number | null>(null);
+  const resumptionHandleRef = useRef<string | null>(null);
+  const pcmBufferRef = useRef<AudioChunk[]>([]);
+  const retrievalIndexRef = useRef<RetrievalIndex | null>(null);
+  const openSessionIdRef = useRef<string | null>(null);
+  const recorderRef = useRef<ActiveRecording | null>(null);
+  const playbackTapRef = useRef<MediaStreamAudioDestinationNode | null>(null);
+  const sessionAudioUrlRef = useRef<string | null>(null);
+  // Set by the consent dialog and used up by the next start, so every session asks again
+  const consentRef = useRef<ConsentRecord | null>(null);
+  const micGainRef = useRef<GainNode | null>(null);
+  const systemGainRef = useRef<GainNode | null>(null);
+  const fileFeederRef = useRef<PcmFeeder | null>(null);
+  const fileFinishTimerRef = useRef<number | null>(null);
+  const sentChunkIdsRef = useRef(new Set<string>());
+  // Fixed when the session starts, so changing the picker mid-session cannot mix languages
+  const translationTargetRef = useRef<{ language: string; knowledgeBase: string } | null>(null);
+
+  const retrievalIndex = useMemo(() => buildIndex(documents.flatMap(d => d.chunks)), [documents]);
   
-  const currentInputTranscription = useRef('');
+  const currentInputSegment = useRef<TranscriptSegment | null>(null);
+  const energyTrackerRef = useRef(createSourceEnergyTracker());
   const currentOutputTranscription = useRef('');
+  const outputTurnTimes = useRef<{ start: Date; end: Date } | null>(null);
+  const cardsThisTurn = useRef(0);
+  const voiceGateRef = useRef<VoiceGate | null>(null);
+  // The typed message still waiting for its answer
+  const pendingQuestionRef = useRef<string | null>(null);
+  // Message ids of the typed messages, by the tag the model sees
+  const typedQuestionsRef = useRef(new Map<string, string>());
+  // Set while the model is producing a turn; questionId is the typed message that turn answers, if any
+  const modelTurnRef = useRef<{ questionId: string | null } | null>(null);
+  const notesSettingsRef = useRef(notesSettings);
+  // Summaries run one at a time so each section starts where the previous one ended
+  const outlineQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const outlineJobsRef = useRef(0);
+  // Speech boundaries from voice detection, used to time transcript segments more precisely than chunk arrival
+  const speechOnsetRef = useRef<Partial<Record<AudioSource, number>>>({});
+  const lastVoicedAtRef = useRef<Partial<Record<AudioSource, number>>>({});
 
   // Check for secure context and API availability on mount
   useEffect(() => {
     if (!window.isSecureContext && window.location.hostname !== 'localhost') {
-      setStatus(prev => ({
-        ...prev,
-        error: "CRITICAL: This app requires HTTPS or Localhost to access Microphone and System Audio. Please switch to a secure connection."
-      }));
+      sendSessionEvent({ type: 'fail', error: sessionError('insecure-context') });
     } else if (!navigator.mediaDevices) {
-      setStatus(prev => ({
-        ...prev,
-        error: "Media Devices API not found. Please ensure you are using a modern browser (Chrome, Edge, Firefox) and have granted necessary permissions."
-      }));
+      sendSessionEvent({ type: 'fail', error: sessionError('unsupported-browser') });
     }
   }, []);
 
-  const encode = (bytes: Uint8Array) => {
-    let binary = '';
-    const len = bytes.byteLength;
-    for (let i = 0; i < len; i++) {
-      binary += String.fromCharCode(bytes[i]);
+  const persistSession = (patch: Partial<SavedSession>) => {
+    if (!currentSessionRef.current) return;
+    currentSessionRef.current = { ...currentSessionRef.current, ...patch };
+    saveSession(currentSessionRef.current).catch(e => console.error("Session Save Error:", e));
+  };
+
+  const recordSessionError = (message: string) => {
+    const session = currentSessionRef.current;
+    if (!session || session.endedAt) return;
+    persistSession({ errors: [...session.errors, { message, timestamp: new Date() }] });
+  };
+
+  useEffect(() => {
+    listFlashcards()
+      .then(setFlashcards)
+      .catch(e => console.error("Flashcard Load Error:", e));
+    listProfiles()
+      .then(setProfiles)
+      .catch(e => console.error("Profile Load Error:", e));
+    listDocuments()
+      .then(setDocuments)
+      .catch(e => console.error("Document Load Error:", e));
+  }, []);
+
+  useEffect(() => {
+    saveLanguageSettings(languageSettings);
+  }, [languageSettings]);
+
+  useEffect(() => {
+    notesSettingsRef.current = notesSettings;
+    saveNotesSettings(notesSettings);
+  }, [notesSettings]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsSearchOpen(open => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, []);
+
+  // Gain changes apply to the running graph straight away, with a short ramp to avoid clicks
+  useEffect(() => {
+    saveAudioSettings(audioSettings);
+    const ctx = audioContextRef.current;
+    if (!ctx) return;
+    micGainRef.current?.gain.setTargetAtTime(audioSettings.micGain, ctx.currentTime, 0.05);
+    systemGainRef.current?.gain.setTargetAtTime(audioSettings.systemGain, ctx.currentTime, 0.05);
+  }, [audioSettings]);
+
+  useEffect(() => {
+    openSessionIdRef.current = openSessionId;
+  }, [openSessionId]);
+
+  // Save on every change so an accidental reload never loses more than the turn in progress
+  useEffect(() => {
+    if (currentSessionRef.current) {
+      persistSession({ messages, suggestions, scoreCards });
+    }
+  }, [messages, suggestions, scoreCards]);
+
+  // Reports can take a while, so the result is only shown if the user is still looking at that session
+  const generateReport = async (sessionId: string, index: RetrievalIndex | null) => {
+    const isViewed = () => openSessionIdRef.current === sessionId;
+    setMainView('report');
+    setReportError(null);
+    setIsGeneratingReport(true);
+    try {
+      const session = currentSessionRef.current?.id === sessionId ? currentSessionRef.current : await getSession(sessionId);
+      if (!session) throw new Error('The session no longer exists.');
+      const newReport = await generateStudyReport(session, index);
+      if (currentSessionRef.current?.id === sessionId) {
+        persistSession({ report: newReport });
+      } else {
+        await saveSession({ ...session, report: newReport });
+      }
+      if (isViewed()) setReport(newReport);
+    } catch (e: any) {
+      console.error("Report Error:", e);
+      if (isViewed()) setReportError(`Report generation failed: ${e.message}`);
+    } finally {
+      if (isViewed()) setIsGeneratingReport(false);
     }
-    return btoa(binary);
   };
 
-  const createBlob = (data: Float32Array): GeminiBlob => {
-    const l = data.length;
-    const int16 = new Int16Array(l);
-    for (let i = 0; i < l; i++) {
-      int16[i] = data[i] * 32768;
+  // A live session gets one section for the turns since the last; a finished one is split into interval-sized stretches
+  const extendOutline = async (sessionId: string) => {
+    const isViewed = () => openSessionIdRef.current === sessionId;
+    if (isViewed()) setOutlineError(null);
+    try {
+      const session = currentSessionRef.current?.id === sessionId ? currentSessionRef.current : await getSession(sessionId);
+      if (!session) throw new Error('The session no longer exists.');
+      const pending = uncoveredTurns(session.messages, session.outline);
+      if (pending.length === 0) return;
+      const newOutline = session.endedAt
+        ? await buildOutline(session, notesSettingsRef.current.intervalMinutes)
+        : [...session.outline, await summariseStretch(pending, session.mode, session.knowledgeBase, session.outline[session.outline.length - 1] ?? null)];
+      if (currentSessionRef.current?.id === sessionId) {
+        persistSession({ outline: newOutline });
+      } else {
+        // Re-read so a report saved while this ran is kept
+        const latest = await getSession(sessionId);
+        if (latest) await saveSession({ ...latest, outline: newOutline });
+      }
+      if (isViewed()) setOutline(newOutline);
+    } catch (e: any) {
+      console.error("Outline Error:", e);
+      if (isViewed()) setOutlineError(`Summary failed: ${e.message}`);
     }
-    return {
-      data: encode(new Uint8Array(int16.buffer)),
-      mimeType: 'audio/pcm;rate=16000',
+  };
+
+  const queueOutline = (sessionId: string) => {
+    outlineJobsRef.current += 1;
+    setIsSummarising(true);
+    outlineQueueRef.current = outlineQueueRef.current
+      .then(() => extendOutline(sessionId))
+      .finally(() => {
+        outlineJobsRef.current -= 1;
+        if (outlineJobsRef.current === 0) setIsSummarising(false);
+      });
+  };
+
+  // Notes mode condenses the transcript every interval while the session runs
+  useEffect(() => {
+    if (!isSessionActive || !notesSettings.enabled) return;
+    const timer = window.setInterval(() => {
+      if (currentSessionRef.current) queueOutline(currentSessionRef.current.id);
+    }, notesSettings.intervalMinutes * 60000);
+    return () => window.clearInterval(timer);
+  }, [isSessionActive, notesSettings.enabled, notesSettings.intervalMinutes]);
+
+  const showSessionAudio = (audio: Blob | null, startedAt: Date | null) => {
+    if (sessionAudioUrlRef.current) URL.revokeObjectURL(sessionAudioUrlRef.current);
+    sessionAudioUrlRef.current = audio && startedAt ? URL.createObjectURL(audio) : null;
+    setSessionAudio(sessionAudioUrlRef.current && startedAt ? { url: sessionAudioUrlRef.current, startedAt } : null);
+  };
+
+  const finishRecording = async ({ recorder, startedAt }: ActiveRecording, sessionId: string) => {
+    const durationMs = Date.now() - startedAt.getTime();
+    setIsRecording(false);
+    try {
+      const audio = await recorder.stop();
+      await saveRecording(sessionId, audio);
+      const recording: SessionRecording = { mimeType: recorder.mimeType, startedAt, durationMs, sizeBytes: audio.size };
+      if (currentSessionRef.current?.id === sessionId) {
+        persistSession({ recording });
+      } else {
+        const session = await getSession(sessionId);
+        if (session) await saveSession({ ...session, recording });
+      }
+      if (openSessionIdRef.current === sessionId) showSessionAudio(audio, startedAt);
+    } catch (e: any) {
+      console.error("Recording Save Error:", e);
+      setNotice(sessionError('recording-save-failed', e.message));
+    }
+  };
+
+  const stopPlayback = () => {
+    playbackSourcesRef.current.forEach(source => {
+      try {
+        source.stop();
+      } catch (e) {
+        // Already finished playing
+      }
+    });
+    playbackSourcesRef.current.clear();
+    nextPlaybackTimeRef.current = 0;
+  };
+
+  const playAudioChunk = (base64: string) => {
+    const outputCtx = outputAudioContextRef.current;
+    if (!outputCtx) return;
+    const buffer = decodeAudioData(decode(base64), outputCtx, 24000, 1);
+    const source = outputCtx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(outputCtx.destination);
+    if (playbackTapRef.current) source.connect(playbackTapRef.current);
+    source.addEventListener('ended', () => playbackSourcesRef.current.delete(source));
+
+    // Queue chunks back to back so the examiner's voice plays without gaps
+    nextPlaybackTimeRef.current = Math.max(nextPlaybackTimeRef.current, outputCtx.currentTime);
+    source.start(nextPlaybackTimeRef.current);
+    nextPlaybackTimeRef.current += buffer.duration;
+    playbackSourcesRef.current.add(source);
+  };
+
+  // Sends the best matching document chunks for a finalised turn, skipping any the model already has
+  const injectRelevantContext = (turnText: string) => {
+    const index = retrievalIndexRef.current;
+    if (!index || !sessionRef.current) return;
+    const chunks = search(index, turnText, RETRIEVAL_TOP_K)
+      .map(hit => hit.chunk)
+      .filter(chunk => !sentChunkIdsRef.current.has(chunk.id));
+    if (chunks.length === 0) return;
+    chunks.forEach(chunk => sentChunkIdsRef.current.add(chunk.id));
+    sessionRef.current.sendContext(buildRetrievedContext(chunks));
+  };
+
+  // Translations arrive after the turn is shown and are attached to it by id
+  const translateMessage = (message: Message) => {
+    const target = translationTargetRef.current;
+    if (!target) return;
+    translateTurn(message.text, target.language, target.knowledgeBase)
+      .then(text => setMessages(prev => prev.some(m => m.id === message.id)
+        ? prev.map(m => m.id === message.id ? { ...m, translation: { language: target.language, text } } : m)
+        : prev))
+      .catch(e => console.error("Translation Error:", e));
+  };
+
+  const flushInputSegment = () => {
+    const segment = currentInputSegment.current;
+    currentInputSegment.current = null;
+    if (!segment || !segment.text.trim()) return;
+    injectRelevantContext(segment.text);
+    // Transcripts trail the audio, so the end of speech is usually earlier than the last chunk
+    const lastVoicedAt = lastVoicedAtRef.current[segment.role];
+    const endTime = lastVoicedAt && lastVoicedAt > segment.start.getTime() && lastVoicedAt < segment.end.getTime()
+      ? new Date(lastVoicedAt)
+      : segment.end;
+    const message: Message = {
+      id: uuidv4(),
+      role: segment.role,
+      type: 'speech',
+      text: segment.text,
+      timestamp: new Date(),
+      startTime: segment.start,
+      endTime,
+      replyTo: null
     };
+    setMessages(prev => [...prev, message]);
+    translateMessage(message);
+  };
+
+  // Typed messages join the live conversation as client content, with the same document retrieval as speech
+  const sendTypedMessage = (text: string) => {
+    const session = sessionRef.current;
+    const trimmed = text.trim();
+    if (!session || !trimmed) return false;
+    // Close the running speech segment first so the transcript keeps the order things happened in
+    flushInputSegment();
+    injectRelevantContext(trimmed);
+    const now = new Date();
+    const message: Message = {
+      id: uuidv4(),
+      role: 'local',
+      type: 'typed',
+      text: trimmed,
+      timestamp: now,
+      startTime: now,
+      endTime: now,
+      replyTo: null
+    };
+    setMessages(prev => [...prev, message]);
+    translateMessage(message);
+    const tag = typedMessageTag(typedQuestionsRef.current.size + 1);
+    typedQuestionsRef.current.set(tag, message.id);
+    pendingQuestionRef.current = message.id;
+    session.sendText(formatTypedMessage(tag, trimmed));
+    return true;
+  };
+
+  // Turns silence gating on for the sources of a new session, or off when the settings disable it
+  const setUpVoiceGate = (sources: AudioSource[]) => {
+    if (!audioSettings.vadEnabled) {
+      voiceGateRef.current = null;
+      setVoiceActivity(null);
+      return;
+    }
+    const detectors: VoiceGate['detectors'] = {};
+    const speaking: VoiceActivity['speaking'] = {};
+    sources.forEach(source => {
+      detectors[source] = createVoiceActivityDetector({ sampleRate: TARGET_SAMPLE_RATE, hangOverMs: audioSettings.vadHangOverMs });
+      speaking[source] = false;
+    });
+    voiceGateRef.current = {
+      detectors,
+      gate: createSpeechGate(Math.ceil(audioSettings.vadPreRollMs / CAPTURE_FRAME_MS)),
+      bytesSent: 0,
+      bytesSaved: 0,
+      reportedAt: 0,
+    };
+    setVoiceActivity({ speaking, bytesSent: 0, bytesSaved: 0 });
+  };
+
+  const detectSpeech = (source: AudioSource, samples: Int16Array, time: number) => {
+    const event = voiceGateRef.current?.detectors[source]?.process(samples, time);
+    if (!event) return;
+    if (event.type === 'speech-start') {
+      speechOnsetRef.current[source] = event.at;
+    } else {
+      lastVoicedAtRef.current[source] = event.at;
+    }
+    setVoiceActivity(prev => prev && { ...prev, speaking: { ...prev.speaking, [source]: event.type === 'speech-start' } });
+  };
+
+  // The first transcript of a segment takes the pending speech start of its source, if it is recent
+  const takeSpeechOnset = (source: AudioSource, now: Date) => {
+    const onset = speechOnsetRef.current[source];
+    delete speechOnsetRef.current[source];
+    return onset && onset < now.getTime() && now.getTime() - onset <= MAX_SPEECH_ONSET_LAG_MS ? new Date(onset) : now;
+  };
+
+  // Streams a frame of session audio, holding it back while nobody is speaking
+  const streamFrame = (frame: Int16Array) => {
+    const voiceGate = voiceGateRef.current;
+    if (!voiceGate) {
+      sendOrBufferAudio(createBlob(frame, TARGET_SAMPLE_RATE));
+      return;
+    }
+    if (isCapturePaused(sessionStateRef.current)) return;
+    const isSpeech = Object.values(voiceGate.detectors).some(detector => detector?.isSpeaking());
+    const { send, dropped, closed } = voiceGate.gate.push(frame, isSpeech);
+    send.forEach(pending => sendOrBufferAudio(createBlob(pending, TARGET_SAMPLE_RATE)));
+    // Tells the model the utterance is over rather than leaving it waiting for more audio
+    if (closed) sessionRef.current?.endAudioStream();
+    voiceGate.bytesSent += send.reduce((total, pending) => total + pending.byteLength, 0);
+    voiceGate.bytesSaved += dropped.reduce((total, pending) => total + pending.byteLength, 0);
+
+    const now = Date.now();
+    if (now - voiceGate.reportedAt < VOICE_STATS_REFRESH_MS) return;
+    voiceGate.reportedAt = now;
+    const { bytesSent, bytesSaved } = voiceGate;
+    setVoiceActivity(prev => prev && { ...prev, bytesSent, bytesSaved });
+  };
+
+  const sendOrBufferAudio = (chunk: AudioChunk) => {
+    if (isCapturePaused(sessionStateRef.current)) return;
+    if (sessionRef.current) {
+      sessionRef.current.sendAudio(chunk);
+      return;
+    }
+    pcmBufferRef.current.push(chunk);
+    if (pcmBufferRef.current.length > MAX_BUFFERED_FRAMES) {
+      pcmBufferRef.current.splice(0, pcmBufferRef.current.length - MAX_BUFFERED_FRAMES);
+    }
   };
 
-  const stopSession = useCallback(() => {
+  // Safe to call from any path: only the first stop of a session tears it down
+  const stopSession = useCallback((error?: SessionError) => {
+    if (!sendSessionEvent({ type: 'stop', error })) return;
+    if (error) recordSessionError(describeSessionError(error));
+    // Invalidate the callbacks of the live connection so its close event does not re-enter here
+    connectionGenerationRef.current++;
+    if (reconnectTimerRef.current !== null) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    pcmBufferRef.current = [];
+    fileFeederRef.current?.stop();
+    fileFeederRef.current = null;
+    if (fileFinishTimerRef.current !== null) {
+      clearTimeout(fileFinishTimerRef.current);
+      fileFinishTimerRef.current = null;
+    }
+    setFileProgress(null);
+    // Stop the recorder before its audio graph is torn down below
+    const activeRecording = recorderRef.current;
+    recorderRef.current = null;
+    playbackTapRef.current = null;
+    if (activeRecording && currentSessionRef.current) {
+      finishRecording(activeRecording, currentSessionRef.current.id);
+    } else if (activeRecording) {
+      activeRecording.recorder.stop();
+      setIsRecording(false);
+    }
     if (sessionRef.current) {
       try {
         sessionRef.current.close();
@@ -84,187 +605,713 @@ const App: React.FC = () => {
       audioContextRef.current.close();
       audioContextRef.current = null;
     }
-    setStatus(prev => ({ ...prev, isActive: false, isMicActive: false }));
+    micGainRef.current = null;
+    systemGainRef.current = null;
+    setAnalysers(null);
+    voiceGateRef.current = null;
+    setVoiceActivity(null);
+    setIsAudioPanelOpen(false);
+    stopPlayback();
+    if (outputAudioContextRef.current) {
+      outputAudioContextRef.current.close();
+      outputAudioContextRef.current = null;
+    }
+    const endedSession = currentSessionRef.current;
+    if (endedSession && !endedSession.endedAt) {
+      persistSession({ endedAt: new Date() });
+      if (endedSession.messages.length > 0) {
+        generateReport(endedSession.id, retrievalIndexRef.current);
+        // The turns since the last section would otherwise never make it into the outline
+        if (notesSettingsRef.current.enabled) queueOutline(endedSession.id);
+      }
+    }
     setStreamingInput('');
     setStreamingOutput('');
+    sendSessionEvent({ type: 'stopped' });
   }, []);
 
-  const startSession = async () => {
-    setStatus({ isActive: false, isConnecting: true, isMicActive: false, error: null });
-
-    if (!navigator.mediaDevices || !navigator.mediaDevices.getDisplayMedia || !navigator.mediaDevices.getUserMedia) {
-      setStatus(prev => ({ 
-        ...prev, 
-        error: "Media capture is not fully supported in this environment. Ensure you are on HTTPS and using a desktop browser.", 
-        isConnecting: false 
-      }));
-      return;
-    }
-
-    if (window.aistudio && !(await window.aistudio.hasSelectedApiKey())) {
-      await window.aistudio.openSelectKey();
-    }
-
-    if (!process.env.API_KEY) {
-      setStatus(prev => ({ ...prev, error: "API Key missing.", isConnecting: false }));
-      return;
-    }
+  const handleConsent = (record: ConsentRecord) => {
+    setIsConsentOpen(false);
+    consentRef.current = record;
+    setConsent(record);
+    startSession();
+  };
 
-    try {
-      // 1. Get Microphone
-      const micStream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true
-        } 
-      }).catch(err => {
-        throw new Error(`Microphone Access Error: ${err.message}. Please click the lock icon in the URL bar and allow 'Microphone'.`);
-      });
-      micStreamRef.current = micStream;
+  // Opens the mic (plus the shared tab in assist mode) and builds the mixing graph. Nothing is sent until start().
+  const openLiveCapture = async (isRehearsal: boolean): Promise<AudioInput> => {
+    // 1. Get Microphone
+    const micConstraints: MediaTrackConstraints = {
+      echoCancellation: true,
+      noiseSuppression: true,
+      autoGainControl: true
+    };
+    const { micDeviceId } = audioSettings;
+    const micStream = await navigator.mediaDevices.getUserMedia({
+      audio: micDeviceId ? { ...micConstraints, deviceId: { exact: micDeviceId } } : micConstraints
+    }).catch(err => {
+      // The chosen device was unplugged since it was picked, so fall back to the default one
+      if (micDeviceId && (err.name === 'OverconstrainedError' || err.name === 'NotFoundError')) {
+        return navigator.mediaDevices.getUserMedia({ audio: micConstraints });
+      }
+      throw err;
+    }).catch(err => {
+      throw new SessionFailure(err.name === 'NotAllowedError' ? 'microphone-denied' : 'microphone-unavailable', err.message);
+    });
+    micStreamRef.current = micStream;
 
-      // 2. Get System Audio (Professor's Voice)
-      let systemStream: MediaStream | null = null;
+    // 2. Get System Audio (Professor's Voice)
+    let systemStream: MediaStream | null = null;
+    // Rehearsal is mic-only: the examiner is the model, so there is no tab to capture
+    if (!isRehearsal) {
       try {
         // Simplified constraints for maximum browser compatibility
         systemStream = await navigator.mediaDevices.getDisplayMedia({
           video: true,
           audio: true
         });
-        
+      
         const audioTracks = systemStream.getAudioTracks();
         if (audioTracks.length === 0) {
           systemStream.getTracks().forEach(t => t.stop());
-          throw new Error("AUDIO NOT DETECTED: You must check the 'Share audio' box in the browser popup (bottom-left). If you don't see the checkbox, try sharing a 'Chrome Tab' specifically.");
+          throw new SessionFailure('tab-audio-missing');
         }
         systemStreamRef.current = systemStream;
       } catch (e: any) {
         if (e.name === 'NotAllowedError') {
-          throw new Error("PERMISSION DENIED: You must allow sharing AND check 'Share Audio' to capture the professor's voice.");
+          throw new SessionFailure('tab-share-denied', e.message);
         }
         throw e;
       }
+    }
 
-      const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      audioContextRef.current = audioCtx;
+    // Run at the device rate; the capture worklet downsamples to 16 kHz itself
+    const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
+    audioContextRef.current = audioCtx;
 
-      const mixerNode = audioCtx.createGain();
-      
-      const micSource = audioCtx.createMediaStreamSource(micStream);
-      const micGain = audioCtx.createGain();
-      micGain.gain.value = 1.0; 
-      micSource.connect(micGain);
-      micGain.connect(mixerNode);
-
-      if (systemStream) {
-        const systemSource = audioCtx.createMediaStreamSource(systemStream);
-        const systemGain = audioCtx.createGain();
-        systemGain.gain.value = 2.0; // Boost system audio so AI hears the professor clearly
-        systemSource.connect(systemGain);
-        systemGain.connect(mixerNode);
+    const mixerNode = audioCtx.createGain();
+    
+    const micSource = audioCtx.createMediaStreamSource(micStream);
+    const micGain = audioCtx.createGain();
+    micGain.gain.value = audioSettings.micGain;
+    micGainRef.current = micGain;
+    micSource.connect(micGain);
+    micGain.connect(mixerNode);
+
+    // Per-source taps so each transcript chunk can be attributed to whoever was louder
+    const micAnalyser = audioCtx.createAnalyser();
+    micAnalyser.fftSize = 2048;
+    micGain.connect(micAnalyser);
+    let systemAnalyser: AnalyserNode | null = null;
+    const sourceGains: Partial<Record<AudioSource, GainNode>> = { local: micGain };
+
+    if (systemStream) {
+      const systemSource = audioCtx.createMediaStreamSource(systemStream);
+      const systemGain = audioCtx.createGain();
+      systemGain.gain.value = audioSettings.systemGain;
+      systemGainRef.current = systemGain;
+      systemSource.connect(systemGain);
+      systemGain.connect(mixerNode);
+      systemAnalyser = audioCtx.createAnalyser();
+      systemAnalyser.fftSize = 2048;
+      systemGain.connect(systemAnalyser);
+      sourceGains.remote = systemGain;
+    }
+    const levelScratch = new Float32Array(micAnalyser.fftSize);
+    setAnalysers({ local: micAnalyser, remote: systemAnalyser });
+
+    const captureNode = await createPcmCaptureNode(audioCtx, { frameSize: CAPTURE_FRAME_SIZE });
+    mixerNode.connect(captureNode);
+
+    // Each source gets its own detector so the UI can show who is speaking, not just that someone is
+    setUpVoiceGate(Object.keys(sourceGains) as AudioSource[]);
+    const detectorNodes: Partial<Record<AudioSource, AudioWorkletNode>> = {};
+    if (voiceGateRef.current) {
+      for (const [source, gain] of Object.entries(sourceGains) as [AudioSource, GainNode][]) {
+        const node = await createPcmCaptureNode(audioCtx, { frameSize: VAD_FRAME_SIZE });
+        gain.connect(node);
+        detectorNodes[source] = node;
       }
+    }
 
-      const scriptProcessor = audioCtx.createScriptProcessor(4096, 1, 1);
-      mixerNode.connect(scriptProcessor);
-      scriptProcessor.connect(audioCtx.destination);
-
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-        callbacks: {
-          onopen: () => {
-            setStatus(prev => ({ ...prev, isActive: true, isConnecting: false, isMicActive: true }));
-            scriptProcessor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createBlob(inputData);
-              sessionPromise.then(session => {
-                if (session) session.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            if (message.serverContent?.outputTranscription) {
-              const text = message.serverContent.outputTranscription.text;
-              currentOutputTranscription.current += text;
-              setStreamingOutput(currentOutputTranscription.current);
-            } else if (message.serverContent?.inputTranscription) {
-              const text = message.serverContent.inputTranscription.text;
-              currentInputTranscription.current += text;
-              setStreamingInput(currentInputTranscription.current);
-            }
+    if (isRehearsal) {
+      outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+    }
 
-            if (message.serverContent?.turnComplete) {
-              const inputText = currentInputTranscription.current;
-              const outputText = currentOutputTranscription.current;
+    // Opt-in local recording of everything heard in the session, including the examiner's voice in rehearsal
+    let recorder: SessionRecorder | null = null;
+    if (recordAudio) {
+      const recordingDestination = audioCtx.createMediaStreamDestination();
+      mixerNode.connect(recordingDestination);
+      if (outputAudioContextRef.current) {
+        const playbackTap = outputAudioContextRef.current.createMediaStreamDestination();
+        playbackTapRef.current = playbackTap;
+        audioCtx.createMediaStreamSource(playbackTap.stream).connect(recordingDestination);
+      }
+      recorder = createSessionRecorder(recordingDestination.stream);
+    }
 
-              if (inputText.trim()) {
-                setMessages(prev => [...prev, {
-                  id: uuidv4(),
-                  role: 'user',
-                  text: inputText,
-                  timestamp: new Date()
-                }]);
-              }
+    return {
+      start: () => {
+        if (recorder) {
+          recorder.start();
+          recorderRef.current = { recorder, startedAt: new Date() };
+          setIsRecording(true);
+        }
+        captureNode.port.onmessage = (e: MessageEvent<ArrayBuffer>) => {
+          energyTrackerRef.current.record(
+            measureRms(micAnalyser, levelScratch),
+            systemAnalyser ? measureRms(systemAnalyser, levelScratch) : 0
+          );
+          streamFrame(new Int16Array(e.data));
+        };
+        (Object.entries(detectorNodes) as [AudioSource, AudioWorkletNode][]).forEach(([source, node]) => {
+          node.port.onmessage = (e: MessageEvent<ArrayBuffer>) => detectSpeech(source, new Int16Array(e.data), Date.now());
+        });
+      }
+    };
+  };
 
-              if (outputText.trim()) {
-                const newMsgId = uuidv4();
-                setMessages(prev => [...prev, {
-                  id: newMsgId,
-                  role: 'assistant',
-                  text: outputText,
-                  timestamp: new Date()
-                }]);
+  // Decodes a recording up front and streams it on a clock in place of live capture
+  const openFileInput = async (file: File): Promise<AudioInput> => {
+    const decoded = await decodeAudioFileToPcm(file, TARGET_SAMPLE_RATE).catch(e => {
+      throw new SessionFailure('file-unreadable', e.message);
+    });
+    // Trailing silence lets the model's voice detection close the final turn
+    const pcm = new Int16Array(decoded.length + TARGET_SAMPLE_RATE * FILE_TRAILING_SILENCE_SECONDS);
+    pcm.set(decoded);
+    const feeder = createPcmFeeder(pcm, {
+      sampleRate: TARGET_SAMPLE_RATE,
+      frameSize: CAPTURE_FRAME_SIZE,
+      speed: analysisSpeed,
+      onFrame: frame => {
+        // A recording is all one lane, so it is detected in slices with times spread back over the frame
+        const now = Date.now();
+        const slices = Math.ceil(frame.length / VAD_FRAME_SIZE);
+        for (let i = 0; i < slices; i++) {
+          const slice = frame.subarray(i * VAD_FRAME_SIZE, (i + 1) * VAD_FRAME_SIZE);
+          detectSpeech('remote', slice, now - (slices - 1 - i) * VAD_FRAME_MS / analysisSpeed);
+        }
+        streamFrame(frame);
+      },
+      onProgress: positionSeconds => setFileProgress(prev => prev && { ...prev, positionSeconds }),
+      onEnd: () => {
+        setFileProgress(prev => prev && { ...prev, isFinished: true });
+        fileFinishTimerRef.current = window.setTimeout(() => {
+          fileFinishTimerRef.current = null;
+          stopSession();
+        }, FILE_FINISH_GRACE_MS);
+      },
+    });
+    fileFeederRef.current = feeder;
+    setUpVoiceGate(['remote']);
+    setFileProgress({ fileName: file.name, positionSeconds: 0, durationSeconds: feeder.durationSeconds, isFinished: false });
+    return { start: feeder.start };
+  };
+
+  // The streams keep running while paused so resuming is instant; their audio is simply not sent
+  const pauseSession = () => {
+    if (!sendSessionEvent({ type: 'pause' })) return;
+    fileFeederRef.current?.pause();
+    sessionRef.current?.endAudioStream();
+  };
+
+  const resumeSession = () => {
+    if (!sendSessionEvent({ type: 'resume' })) return;
+    if (sessionRef.current) fileFeederRef.current?.resume();
+  };
+
+  // Live and just-ended sessions are saved by the effect above; a session opened from history is patched in the store
+  const updateSuggestion = (id: string, patch: Partial<Suggestion>) => {
+    setSuggestions(prev => prev.map(s => s.id === id ? { ...s, ...patch } : s));
+    const sessionId = openSessionIdRef.current;
+    if (currentSessionRef.current || !sessionId) return;
+    getSession(sessionId)
+      .then(session => session && saveSession({ ...session, suggestions: session.suggestions.map(s => s.id === id ? { ...s, ...patch } : s) }))
+      .catch(e => console.error("Session Save Error:", e));
+  };
+
+  const pendingOutlineTurns = useMemo(() => uncoveredTurns(messages, outline).length, [messages, outline]);
+  // Shown for any session that has an outline, and in notes mode for one that could get one
+  const showOutline = outline.length > 0 || (notesSettings.enabled && (isSessionActive || (openSessionId !== null && messages.length > 0)));
+
+  const searchableSession = useMemo((): SearchableSession | null => {
+    if (messages.length === 0 && suggestions.length === 0) return null;
+    const record = currentSessionRef.current;
+    return {
+      id: openSessionId ?? 'live',
+      name: record?.name ?? 'This session',
+      mode,
+      startedAt: record?.startedAt ?? new Date(),
+      messages,
+      suggestions,
+    };
+  }, [openSessionId, mode, messages, suggestions]);
+
+  const handleJumpToResult = async (result: SearchResult) => {
+    const target = { type: result.type, id: result.id, nonce: Date.now() };
+    setIsCaptionsOpen(false);
+    if (result.session.id !== searchableSession?.id) {
+      if (isSessionActive) return;
+      try {
+        const session = await getSession(result.session.id);
+        if (!session) return;
+        openSavedSession(session);
+      } catch (e) {
+        console.error("Session Load Error:", e);
+        return;
+      }
+    }
+    setMainView('session');
+    setFocusTarget(target);
+  };
+
+  const startSession = async () => {
+    const sessionConsent = consentRef.current;
+    consentRef.current = null;
+    if (!sessionConsent) {
+      setIsConsentOpen(true);
+      return;
+    }
+    if (!sendSessionEvent({ type: 'start' })) return;
+    setNotice(null);
+    const isRehearsal = mode === 'rehearsal';
+    const isFileAnalysis = !isRehearsal && analysisFile !== null;
+    reconnectAttemptRef.current = 0;
+    resumptionHandleRef.current = null;
+    pcmBufferRef.current = [];
+    retrievalIndexRef.current = documents.length > 0 ? retrievalIndex : null;
+    sentChunkIdsRef.current = new Set();
+    const { spokenLanguage, translationLanguage } = languageSettings;
+    translationTargetRef.current = translationLanguage ? { language: translationLanguage, knowledgeBase } : null;
+
+    // Detach the previous record before clearing state so the clear is not saved over it
+    currentSessionRef.current = null;
+    setOpenSessionId(null);
+    setMessages([]);
+    setSuggestions([]);
+    setScoreCards([]);
+    setReport(null);
+    setReportError(null);
+    setIsGeneratingReport(false);
+    setOutline([]);
+    setOutlineError(null);
+    setSessionStartedAt(null);
+    setMainView('session');
+    showSessionAudio(null, null);
+    currentInputSegment.current = null;
+    currentOutputTranscription.current = '';
+    outputTurnTimes.current = null;
+    cardsThisTurn.current = 0;
+    energyTrackerRef.current.reset();
+    speechOnsetRef.current = {};
+    lastVoicedAtRef.current = {};
+    pendingQuestionRef.current = null;
+    typedQuestionsRef.current = new Map();
+    modelTurnRef.current = null;
+
+    // Rehearsal only needs the microphone, so tab sharing support is optional there
+    if (!isFileAnalysis && (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia || (!isRehearsal && !navigator.mediaDevices.getDisplayMedia))) {
+      stopSession(sessionError('unsupported-browser'));
+      return;
+    }
+
+    try {
+      const audioInput = isFileAnalysis && analysisFile
+        ? await openFileInput(analysisFile)
+        : await openLiveCapture(isRehearsal);
+      sendSessionEvent({ type: 'permissions-granted' });
+
+      const provider = createLiveProvider(mode);
+      const tools = isRehearsal ? [recordScoreDeclaration] : [suggestionCardDeclaration];
+      const documentNames = documents.map(d => d.name);
+      const template = activeProfile?.instructionTemplate ?? null;
+      const baseInstruction = template
+        ? buildTemplateInstruction(template, activeProfile?.variables ?? {}, knowledgeBase, mode, documentNames, spokenLanguage)
+        : isRehearsal
+          ? buildRehearsalInstruction(knowledgeBase, documentNames, spokenLanguage)
+          : buildAssistInstruction(knowledgeBase, documentNames, spokenLanguage);
+      const model = activeProfile?.model ?? undefined;
+      let hasOpened = false;
+
+      // A turn already under way when a message was typed cannot be answering it, so only the next one to begin is
+      const beginModelTurn = () => {
+        if (modelTurnRef.current) return;
+        modelTurnRef.current = { questionId: pendingQuestionRef.current };
+        pendingQuestionRef.current = null;
+      };
 
-                setSuggestions(prev => [{
-                  id: newMsgId,
-                  title: 'AI Insight',
-                  content: outputText,
-                  confidence: 0.99,
+      const completeTurn = () => {
+        const outputText = currentOutputTranscription.current;
+        const completedAt = new Date();
+        const outputTimes = outputTurnTimes.current ?? { start: completedAt, end: completedAt };
+
+        flushInputSegment();
+
+        const replyTo = modelTurnRef.current?.questionId ?? null;
+        modelTurnRef.current = null;
+
+        if (outputText.trim()) {
+          const newMsgId = uuidv4();
+          const message: Message = {
+            id: newMsgId,
+            role: 'assistant',
+            type: 'speech',
+            text: outputText,
+            timestamp: completedAt,
+            startTime: outputTimes.start,
+            endTime: outputTimes.end,
+            replyTo
+          };
+          setMessages(prev => [...prev, message]);
+          translateMessage(message);
+
+          // Cards normally arrive through show_suggestion_card. Only fall back to the raw text when the
+          // model answered without one. In rehearsal the examiner's speech stays in the transcript only.
+          if (!isRehearsal && cardsThisTurn.current === 0) {
+            setSuggestions(prev => [{
+              id: newMsgId,
+              kind: 'insight' as const,
+              title: 'AI Insight',
+              content: outputText,
+              confidence: null,
+              relatedTopics: [],
+              sourceDocument: null,
+              isPinned: false,
+              tags: [],
+              replyTo,
+              timestamp: new Date()
+            }, ...prev]);
+          }
+        }
+        cardsThisTurn.current = 0;
+
+        currentOutputTranscription.current = '';
+        outputTurnTimes.current = null;
+        setStreamingInput('');
+        setStreamingOutput('');
+      };
+
+      // Keeps the media streams running and retries with exponential backoff while audio is buffered
+      const handleConnectionLost = () => {
+        if (!isSessionRunning(sessionStateRef.current) || reconnectTimerRef.current !== null) return;
+        connectionGenerationRef.current++;
+        const deadSession = sessionRef.current;
+        sessionRef.current = null;
+        try {
+          deadSession?.close();
+        } catch (e) {
+          // The socket is already gone
+        }
+        completeTurn();
+        stopPlayback();
+        // Hold the file where it is instead of overflowing the reconnect buffer
+        fileFeederRef.current?.pause();
+
+        const attempt = reconnectAttemptRef.current + 1;
+        if (attempt > MAX_RECONNECT_ATTEMPTS) {
+          stopSession(sessionError('connection-lost'));
+          return;
+        }
+        reconnectAttemptRef.current = attempt;
+        sendSessionEvent({ type: 'connection-lost', attempt });
+
+        const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1));
+        reconnectTimerRef.current = window.setTimeout(() => {
+          reconnectTimerRef.current = null;
+          connectLive().catch(e => {
+            console.error("Reconnect Error:", e);
+            recordSessionError(e.message);
+            handleConnectionLost();
+          });
+        }, delay);
+      };
+
+      const connectLive = async () => {
+        const generation = ++connectionGenerationRef.current;
+        // Callbacks from a connection that has since been replaced are ignored
+        const current = <A extends unknown[]>(handler: (...args: A) => void) => (...args: A) => {
+          if (generation === connectionGenerationRef.current) handler(...args);
+        };
+        const resumptionHandle = resumptionHandleRef.current ?? undefined;
+        const systemInstruction = hasOpened && !resumptionHandle
+          ? baseInstruction + buildResumeContext(currentSessionRef.current?.messages ?? [], mode)
+          : baseInstruction;
+
+        // A send that fails means the socket is gone, so it is treated like any other dropped connection
+        const sendOnceOpen = (send: (session: LiveTranscriptionSession) => void) => {
+          sessionPromise.then(send).catch(current((e: Error) => {
+            console.error("Session Send Error:", e);
+            recordSessionError(e.message);
+            handleConnectionLost();
+          }));
+        };
+
+        const sessionPromise = provider.connect({ model, systemInstruction, tools, resumptionHandle, languageCode: spokenLanguage ?? undefined }, {
+          onOpen: current(() => {
+            sendSessionEvent({ type: 'opened' });
+            if (hasOpened) return;
+            hasOpened = true;
+
+            const startedAt = new Date();
+            currentSessionRef.current = {
+              id: uuidv4(),
+              name: isFileAnalysis && analysisFile
+                ? `File Analysis ${analysisFile.name}`
+                : `${isRehearsal ? 'Mock Viva' : 'Live Session'} ${startedAt.toLocaleString()}`,
+              mode,
+              knowledgeBase,
+              startedAt,
+              endedAt: null,
+              messages: [],
+              suggestions: [],
+              scoreCards: [],
+              errors: [],
+              report: null,
+              recording: null,
+              consent: sessionConsent,
+              language: spokenLanguage,
+              outline: []
+            };
+            persistSession({});
+            setOpenSessionId(currentSessionRef.current.id);
+            setSessionStartedAt(startedAt);
+            audioInput.start();
+            if (isRehearsal) {
+              sendOnceOpen(session => session.sendText(REHEARSAL_KICKOFF));
+            }
+          }),
+          onOutputAudio: current(playAudioChunk),
+          onInterrupted: current(stopPlayback),
+          onToolCall: current((calls) => {
+            const functionResponses = calls.map(fc => {
+              if (fc.name === recordScoreDeclaration.name) {
+                const args = fc.args as { question?: string; answer?: string; score?: number; critique?: string };
+                setScoreCards(prev => [...prev, {
+                  id: uuidv4(),
+                  question: args.question ?? '',
+                  answer: args.answer ?? '',
+                  score: Math.min(10, Math.max(0, Number(args.score) || 0)),
+                  maxScore: 10,
+                  critique: args.critique ?? '',
                   timestamp: new Date()
-                }, ...prev].slice(0, 15));
+                }]);
+              } else if (fc.name === suggestionCardDeclaration.name) {
+                cardsThisTurn.current++;
+                beginModelTurn();
+                // Cards are only threaded under a typed message when the model names it
+                const replyTag = typeof fc.args.reply_to === 'string' ? fc.args.reply_to.trim() : '';
+                const replyTo = typedQuestionsRef.current.get(replyTag) ?? null;
+                const card = { id: uuidv4(), ...parseSuggestionCard(fc.args), isPinned: false, tags: [], replyTo, timestamp: new Date() };
+                setSuggestions(prev => [card, ...prev]);
               }
-
-              currentInputTranscription.current = '';
-              currentOutputTranscription.current = '';
-              setStreamingInput('');
-              setStreamingOutput('');
+              return { id: fc.id, name: fc.name, response: { result: 'recorded' } };
+            });
+            sendOnceOpen(session => session.sendToolResponses(functionResponses));
+          }),
+          onOutputTranscript: current((text) => {
+            beginModelTurn();
+            const now = new Date();
+            outputTurnTimes.current = { start: outputTurnTimes.current?.start ?? now, end: now };
+            currentOutputTranscription.current += text;
+            setStreamingOutput(currentOutputTranscription.current);
+          }),
+          onInputTranscript: current((text, source) => {
+            const now = new Date();
+            // A recording has no separate mic, so everything in it is attributed to the remote lane
+            const role = source ?? (isFileAnalysis ? 'remote' : energyTrackerRef.current.dominantSource(now.getTime()));
+            // A change of speaker closes the running segment so each source gets its own bubble
+            if (currentInputSegment.current && currentInputSegment.current.role !== role) {
+              flushInputSegment();
             }
-          },
-          onerror: (e: any) => {
+            const segment = currentInputSegment.current;
+            currentInputSegment.current = segment
+              ? { ...segment, text: segment.text + text, end: now }
+              : { role, text, start: takeSpeechOnset(role, now), end: now };
+            setStreamingInput(currentInputSegment.current.text);
+            setStreamingInputRole(role);
+          }),
+          onTurnComplete: current(completeTurn),
+          onResumptionHandle: current((handle) => {
+            resumptionHandleRef.current = handle;
+          }),
+          onError: current((e) => {
             console.error("Session Error:", e);
-            setStatus(prev => ({ ...prev, error: "Connection interrupted. Please verify your internet and restart Viva Guard.", isConnecting: false }));
-            stopSession();
-          },
-          onclose: () => stopSession()
-        },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          outputAudioTranscription: {},
-          inputAudioTranscription: {},
-          systemInstruction: `You are the Viva Intelligence Guard. 
-            
-            PARTIES IN STREAM:
-            - PROFESSOR (Priority, System Audio): Asking questions or explaining.
-            - STUDENT (User, Microphone): Responding to the professor.
-            - YOU: Silent visual assistant providing instant help.
-            
-            TASKS:
-            1. Listen to the Professor. If they ask a question like "What is 1+1?", show the answer and explanation IMMEDIATELY in the transcription area.
-            2. Listen to the Student. If they answer "1+1 is 2", confirm visually. If they struggle or get it wrong, provide a "Corrective Hint" or "Key Concept" box immediately.
-            3. Use highly readable formatting: **Bold**, bullet points, and short sentences.
-            4. STAY SILENT. Do not speak. Your help is 100% visual.
-            5. IGNORE FEEDBACK: Do not process your own previous transcription results as new input.
-            
-            KNOWLEDGE CONTEXT: ${knowledgeBase || 'Professional viva/academic interview.'}`,
+            if (hasOpened) {
+              recordSessionError(e.message);
+              handleConnectionLost();
+              return;
+            }
+            stopSession(sessionError('connection-failed', e.message));
+          }),
+          onClose: current(() => {
+            if (hasOpened) {
+              handleConnectionLost();
+            } else {
+              stopSession(sessionError('connection-failed'));
+            }
+          })
+        });
+
+        const session = await sessionPromise;
+        if (generation !== connectionGenerationRef.current) {
+          session.close();
+          return;
         }
-      });
+        sessionRef.current = session;
+        reconnectAttemptRef.current = 0;
+        const buffered = pcmBufferRef.current;
+        pcmBufferRef.current = [];
+        buffered.forEach(chunk => session.sendAudio(chunk));
+        if (!isCapturePaused(sessionStateRef.current)) fileFeederRef.current?.resume();
+      };
 
-      sessionRef.current = await sessionPromise;
+      await connectLive();
 
     } catch (err: any) {
       console.error("Startup Error:", err);
-      setStatus(prev => ({ ...prev, error: err.message, isConnecting: false }));
-      stopSession();
+      stopSession(toSessionError(err));
+    }
+  };
+
+  const openSavedSession = (session: SavedSession) => {
+    currentSessionRef.current = null;
+    setOpenSessionId(session.id);
+    setMode(session.mode);
+    setKnowledgeBase(session.knowledgeBase);
+    setMessages(session.messages);
+    setSuggestions(session.suggestions);
+    setScoreCards(session.scoreCards);
+    setReport(session.report);
+    setReportError(null);
+    setIsGeneratingReport(false);
+    setOutline(session.outline);
+    setOutlineError(null);
+    setSessionStartedAt(session.startedAt);
+    setMainView(session.report ? 'report' : 'session');
+    showSessionAudio(null, null);
+    if (session.recording) {
+      const { startedAt } = session.recording;
+      getRecording(session.id)
+        .then(audio => {
+          if (audio && openSessionIdRef.current === session.id) showSessionAudio(audio, startedAt);
+        })
+        .catch(e => console.error("Recording Load Error:", e));
+    }
+  };
+
+  const handleRenameSession = async (id: string, name: string) => {
+    if (currentSessionRef.current?.id === id) {
+      currentSessionRef.current = { ...currentSessionRef.current, name };
+    }
+    await renameSession(id, name);
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    if (currentSessionRef.current?.id === id) {
+      currentSessionRef.current = null;
+    }
+    await deleteSession(id);
+    if (openSessionId === id) {
+      setOpenSessionId(null);
+      setMessages([]);
+      setSuggestions([]);
+      setScoreCards([]);
+      setReport(null);
+      setOutline([]);
+      setSessionStartedAt(null);
+      setMainView('session');
+      showSessionAudio(null, null);
+    }
+  };
+
+  // Cards whose front and back already exist in the deck are skipped, so a session can be turned into cards twice safely
+  const addFlashcards = async (drafts: CardDraft[], sessionId: string | null): Promise<number> => {
+    const existing = new Set(flashcards.map(card => `${card.front}\u0000${card.back}`));
+    const now = new Date();
+    const newCards: Flashcard[] = [];
+    drafts.forEach(draft => {
+      const key = `${draft.front}\u0000${draft.back}`;
+      if (existing.has(key)) return;
+      existing.add(key);
+      newCards.push({ id: uuidv4(), ...draft, sessionId, createdAt: now, ...initialSchedule(now) });
+    });
+    if (newCards.length > 0) {
+      await saveFlashcards(newCards);
+      setFlashcards(prev => [...prev, ...newCards]);
+    }
+    return newCards.length;
+  };
+
+  const handleUpdateFlashcard = async (card: Flashcard) => {
+    await saveFlashcards([card]);
+    setFlashcards(prev => prev.map(c => c.id === card.id ? card : c));
+  };
+
+  // Loading a profile replaces the current setup; the profile keeps its own template, variables and model
+  const handleSelectProfile = (profile: SessionProfile | null) => {
+    setActiveProfile(profile);
+    if (!profile) return;
+    setMode(profile.mode);
+    setKnowledgeBase(profile.knowledgeBase);
+    setLanguageSettings(profile.language);
+    setAudioSettings(profile.audio);
+  };
+
+  const handleSaveProfile = async (name: string | null) => {
+    const base = activeProfile ?? { instructionTemplate: null, variables: {}, model: null };
+    const profile: SessionProfile = {
+      ...base,
+      id: name === null && activeProfile ? activeProfile.id : uuidv4(),
+      name: name ?? activeProfile?.name ?? 'Untitled profile',
+      isPreset: false,
+      mode,
+      knowledgeBase,
+      language: languageSettings,
+      audio: audioSettings,
+      updatedAt: new Date(),
+    };
+    await saveProfiles([profile]);
+    setProfiles(await listProfiles());
+    setActiveProfile(profile);
+  };
+
+  const handleDeleteProfile = async (id: string) => {
+    await deleteProfile(id);
+    setProfiles(prev => prev.filter(p => p.id !== id));
+    setActiveProfile(null);
+  };
+
+  const handleImportProfiles = async (imported: SessionProfile[]) => {
+    const result = await importProfiles(imported);
+    setProfiles(await listProfiles());
+    return result;
+  };
+
+  const handleDocumentsChange = (updated: KnowledgeDocument[]) => {
+    setDocuments(updated);
+    replaceDocuments(updated).catch(e => console.error("Document Save Error:", e));
+  };
+
+  const handleDeleteFlashcard = async (id: string) => {
+    await deleteFlashcard(id);
+    setFlashcards(prev => prev.filter(c => c.id !== id));
+  };
+
+  const handleGradeFlashcard = (card: Flashcard, grade: ReviewGrade) => {
+    const rescheduled = scheduleReview(card, grade);
+    setFlashcards(prev => prev.map(c => c.id === card.id ? rescheduled : c));
+    saveFlashcards([rescheduled]).catch(e => console.error("Flashcard Save Error:", e));
+    return rescheduled;
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      const session = currentSessionRef.current ?? (openSessionId ? await getSession(openSessionId) : undefined);
+      if (!session) return;
+      downloadSession(session, format);
+    } catch (e: any) {
+      console.error("Export Error:", e);
+      setNotice(sessionError('export-failed', e.message));
     }
   };
 
@@ -287,45 +1334,283 @@ const App: React.FC = () => {
         </div>
 
         <div className="flex items-center gap-4">
-          <StatusIndicator status={status} />
-          {!status.isActive ? (
+          {isRecording && (
+            <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-rose-500/10 border border-rose-500/40 text-rose-400 text-[10px] font-black uppercase tracking-widest" title="Session audio is being recorded to this device">
+              <div className="w-2 h-2 rounded-full bg-rose-500 animate-pulse"></div>
+              Recording
+            </div>
+          )}
+          {fileProgress && (
+            <div className="flex items-center gap-3 px-4 py-1.5 rounded-full bg-slate-900/50 border border-slate-700/50">
+              <span className="text-xs font-semibold text-slate-300 max-w-[10rem] truncate" title={fileProgress.fileName}>📼 {fileProgress.fileName}</span>
+              <div className="w-32 h-1.5 rounded-full bg-slate-700/60 overflow-hidden" role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(100 * fileProgress.positionSeconds / fileProgress.durationSeconds)}>
+                <div className="h-full bg-indigo-400" style={{ width: `${100 * fileProgress.positionSeconds / fileProgress.durationSeconds}%` }}></div>
+              </div>
+              <span className="text-[10px] font-bold text-slate-400 tabular-nums">
+                {formatClock(fileProgress.positionSeconds)} / {formatClock(fileProgress.durationSeconds)}
+              </span>
+              {fileProgress.isFinished && (
+                <span className="text-[10px] font-black uppercase tracking-wider text-emerald-400">Finishing...</span>
+              )}
+            </div>
+          )}
+          <StatusIndicator state={sessionState} error={activeError ?? notice} analysers={analysers} voiceActivity={voiceActivity} silenceWarningSeconds={audioSettings.silenceWarningSeconds} />
+          <button
+            onClick={() => setIsSearchOpen(open => !open)}
+            aria-pressed={isSearchOpen}
+            title="Search (Ctrl+K)"
+            className={`px-3 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-wider transition-all ${
+              isSearchOpen ? 'bg-indigo-600 text-white' : 'bg-white/5 hover:bg-white/10 text-slate-300'
+            }`}
+          >
+            Search
+          </button>
+          <button
+            onClick={() => setIsCaptionsOpen(open => !open)}
+            aria-pressed={isCaptionsOpen}
+            className={`px-3 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-wider transition-all ${
+              isCaptionsOpen ? 'bg-emerald-600 text-white' : 'bg-white/5 hover:bg-white/10 text-slate-300'
+            }`}
+          >
+            Captions
+          </button>
+          {isSessionActive && (
+            <div className="relative">
+              <button
+                onClick={() => setIsAudioPanelOpen(open => !open)}
+                className="px-3 py-2.5 rounded-xl bg-white/5 hover:bg-white/10 text-[10px] font-black uppercase tracking-wider text-slate-300 transition-all"
+              >
+                Audio
+              </button>
+              {isAudioPanelOpen && (
+                <div className="absolute right-0 mt-2 w-72 rounded-2xl bg-[#161b2c] shadow-2xl z-20">
+                  <AudioSettingsPanel settings={audioSettings} mode={mode} isDeviceLocked onChange={setAudioSettings} />
+                </div>
+              )}
+            </div>
+          )}
+          {!isSessionActive ? (
             <button
-              onClick={startSession}
-              disabled={status.isConnecting}
+              onClick={() => setIsConsentOpen(true)}
+              disabled={isSessionStarting(sessionState) || sessionState.phase === 'stopping'}
               className="px-6 py-2.5 rounded-xl bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-sm font-bold transition-all flex items-center gap-2 shadow-xl shadow-indigo-600/20 active:scale-95"
             >
-              {status.isConnecting ? "Configuring..." : "Enable Viva Guard"}
+              {sessionState.phase === 'requesting-permissions'
+                ? "Awaiting Access..."
+                : sessionState.phase === 'connecting'
+                ? "Connecting..."
+                : mode === 'rehearsal' ? "Start Rehearsal" : analysisFile ? "Analyse Recording" : "Enable Viva Guard"}
             </button>
           ) : (
-            <button
-              onClick={stopSession}
-              className="px-6 py-2.5 rounded-xl bg-rose-600/10 border border-rose-500/50 hover:bg-rose-600/20 text-rose-400 text-sm font-bold transition-all flex items-center gap-2"
-            >
-              <div className="w-2 h-2 rounded-full bg-rose-500 animate-pulse"></div>
-              Terminate Guard
-            </button>
+            <>
+              <button
+                onClick={sessionState.phase === 'paused' ? resumeSession : pauseSession}
+                disabled={sessionState.phase === 'reconnecting' || fileProgress?.isFinished}
+                title={sessionState.phase === 'paused' ? 'Start sending audio to the model again' : 'Stop sending audio to the model without ending the session'}
+                className={`px-4 py-2.5 rounded-xl text-sm font-bold transition-all disabled:opacity-50 ${
+                  sessionState.phase === 'paused'
+                    ? 'bg-emerald-600/20 border border-emerald-500/50 hover:bg-emerald-600/30 text-emerald-300'
+                    : 'bg-white/5 border border-white/10 hover:bg-white/10 text-slate-300'
+                }`}
+              >
+                {sessionState.phase === 'paused' ? 'Resume' : 'Pause'}
+              </button>
+              <button
+                onClick={() => stopSession()}
+                className="px-6 py-2.5 rounded-xl bg-rose-600/10 border border-rose-500/50 hover:bg-rose-600/20 text-rose-400 text-sm font-bold transition-all flex items-center gap-2"
+              >
+                <div className="w-2 h-2 rounded-full bg-rose-500 animate-pulse"></div>
+                Terminate Guard
+              </button>
+            </>
           )}
         </div>
       </header>
 
+      {isSessionActive && consent && (
+        <div role="status" className="flex items-center justify-between gap-4 px-6 py-2 bg-rose-500/10 border-b border-rose-500/30">
+          <div className="flex items-center gap-2 text-[11px] font-bold text-rose-200">
+            <div className="w-2 h-2 rounded-full bg-rose-500 animate-pulse"></div>
+            {sessionState.phase === 'paused' ? (
+              <>
+                <span className="uppercase tracking-widest font-black text-rose-400">AI transcription paused</span>
+                <span className="text-rose-200/80">No audio is being sent to {consent.destination} until you resume.</span>
+              </>
+            ) : (
+              <>
+                <span className="uppercase tracking-widest font-black text-rose-400">AI transcription active</span>
+                <span className="text-rose-200/80">
+                  Audio from {describeCapture(consent.sources, consent.analysedFile)} is being sent to {consent.destination}.
+                </span>
+              </>
+            )}
+          </div>
+          {!consent.analysedFile && (
+          <CopyButton
+            text={buildDisclosureMessage(consent.destination, consent.recordedLocally)}
+            label="Copy Disclosure Message"
+            className="flex-shrink-0 px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-[10px] font-black uppercase tracking-wider text-rose-200 transition-all"
+          />
+          )}
+        </div>
+      )}
+
+      {isConsentOpen && (
+        <ConsentDialog
+          mode={mode}
+          recordAudio={recordAudio}
+          isMock={isMockProvider}
+          fileName={mode === 'assist' && analysisFile ? analysisFile.name : null}
+          onConfirm={handleConsent}
+          onCancel={() => setIsConsentOpen(false)}
+        />
+      )}
+
       <main className="flex-1 flex overflow-hidden p-6 gap-6 relative">
-        {!status.isActive && (
+        {!isSessionActive && (
           <div className="w-96 flex flex-col gap-5 bg-white/[0.03] backdrop-blur-sm rounded-3xl p-6 border border-white/5 shadow-inner">
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2">
                 <div className="w-1 h-4 bg-indigo-500 rounded-full"></div>
-                <h2 className="text-xs font-bold text-slate-400 uppercase tracking-widest">Setup Instructions</h2>
+                <h2 className="text-xs font-bold text-slate-400 uppercase tracking-widest">
+                  {sidebarView === 'history' ? 'Session History' : sidebarView === 'flashcards' ? 'Flashcards' : 'Setup Instructions'}
+                </h2>
+              </div>
+              <div className="flex gap-1">
+                {([
+                  { value: 'setup', label: 'Setup' },
+                  { value: 'history', label: 'History' },
+                  { value: 'flashcards', label: 'Cards' }
+                ] as { value: typeof sidebarView; label: string }[]).map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => setSidebarView(option.value)}
+                    className={`px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-wider transition-all ${
+                      sidebarView === option.value ? 'bg-indigo-600 text-white' : 'bg-white/5 hover:bg-white/10 text-slate-300'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
               </div>
             </div>
             
+            {sidebarView === 'history' ? (
             <div className="flex-1 flex flex-col gap-4 overflow-y-auto custom-scrollbar">
+              <SessionHistory
+                openSessionId={openSessionId}
+                onOpen={openSavedSession}
+                onRename={handleRenameSession}
+                onDelete={handleDeleteSession}
+                onMakeFlashcards={session => addFlashcards(extractCardDrafts(session), session.id)}
+              />
+            </div>
+            ) : sidebarView === 'flashcards' ? (
+            <div className="flex-1 flex flex-col gap-4 overflow-y-auto custom-scrollbar">
+              <FlashcardDeck
+                cards={flashcards}
+                onUpdate={handleUpdateFlashcard}
+                onDelete={handleDeleteFlashcard}
+                onImport={drafts => addFlashcards(drafts, null)}
+                onStartReview={() => setMainView('review')}
+              />
+            </div>
+            ) : (
+            <div className="flex-1 flex flex-col gap-4 overflow-y-auto custom-scrollbar">
+              <ProfilePanel
+                profiles={profiles}
+                activeProfile={activeProfile}
+                onSelect={handleSelectProfile}
+                onEdit={patch => setActiveProfile(current => current && { ...current, ...patch })}
+                onSave={handleSaveProfile}
+                onDelete={handleDeleteProfile}
+                onImport={handleImportProfiles}
+              />
+
+              <div className="grid grid-cols-2 gap-1 p-1 rounded-2xl bg-black/40 border border-white/5">
+                {([
+                  { value: 'assist', label: 'Live Assist' },
+                  { value: 'rehearsal', label: 'Mock Viva' }
+                ] as { value: SessionMode; label: string }[]).map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => setMode(option.value)}
+                    className={`py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${
+                      mode === option.value ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-600/20' : 'text-slate-500 hover:text-slate-300'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+
               <textarea
                 value={knowledgeBase}
                 onChange={(e) => setKnowledgeBase(e.target.value)}
                 placeholder="Paste the Subject Topics, Job Description, or your Resume here..."
                 className="h-32 bg-black/40 border border-white/5 rounded-2xl p-4 text-sm focus:border-indigo-500/50 focus:ring-4 focus:ring-indigo-500/10 outline-none resize-none transition-all placeholder:text-slate-600"
               />
+
+              <KnowledgeDocuments documents={documents} onChange={handleDocumentsChange} />
+
+              {mode === 'assist' && (
+                <AudioFilePicker
+                  file={analysisFile}
+                  speed={analysisSpeed}
+                  onFileChange={setAnalysisFile}
+                  onSpeedChange={setAnalysisSpeed}
+                />
+              )}
+
+              <AudioSettingsPanel settings={audioSettings} mode={mode} isDeviceLocked={false} onChange={setAudioSettings} />
+
+              <LanguageSettingsPanel settings={languageSettings} onChange={setLanguageSettings} />
+
+              <NotesSettingsPanel settings={notesSettings} onChange={setNotesSettings} />
+
+              <label className={`flex items-start gap-3 p-3 rounded-2xl bg-black/40 border border-white/5 ${isRecordingSupported() ? 'cursor-pointer' : 'opacity-50'}`}>
+                <input
+                  type="checkbox"
+                  checked={recordAudio}
+                  disabled={!isRecordingSupported()}
+                  onChange={(e) => setRecordAudio(e.target.checked)}
+                  className="mt-0.5 accent-rose-500"
+                />
+                <span>
+                  <span className="block text-xs font-bold text-slate-200">Record session audio</span>
+                  <span className="block text-[10px] text-slate-500 leading-relaxed">
+                    {isRecordingSupported()
+                      ? 'Kept only in this browser with the session, so you can replay what was actually said.'
+                      : 'Recording is not supported in this browser.'}
+                  </span>
+                </span>
+              </label>
               
+              {mode === 'rehearsal' ? (
+              <div className="p-5 rounded-2xl bg-indigo-500/5 border border-indigo-500/20 space-y-4">
+                <h3 className="text-[11px] font-black text-indigo-400 uppercase tracking-wider">How the rehearsal works:</h3>
+                <div className="space-y-3">
+                  <div className="flex items-start gap-3">
+                    <div className="mt-0.5 w-5 h-5 rounded-full bg-indigo-500/20 border border-indigo-500/40 flex-shrink-0 flex items-center justify-center text-[10px] font-bold text-indigo-400">1</div>
+                    <p className="text-[11px] text-slate-300 leading-relaxed">
+                      Click <b>Start Rehearsal</b> and allow the microphone. No tab sharing is needed.
+                    </p>
+                  </div>
+                  <div className="flex items-start gap-3">
+                    <div className="mt-0.5 w-5 h-5 rounded-full bg-indigo-500/20 border border-indigo-500/40 flex-shrink-0 flex items-center justify-center text-[10px] font-bold text-indigo-400">2</div>
+                    <p className="text-[11px] text-slate-300 leading-relaxed">
+                      The examiner asks one question at a time out loud. Answer into your mic, then wait for the score.
+                    </p>
+                  </div>
+                  <div className="flex items-start gap-3 bg-amber-500/10 p-2 rounded-lg border border-amber-500/20">
+                    <div className="mt-0.5 w-5 h-5 rounded-full bg-amber-500 flex-shrink-0 flex items-center justify-center text-[10px] font-bold text-black">!</div>
+                    <p className="text-[11px] text-amber-200 leading-relaxed font-bold">
+                      Use headphones so the examiner's voice is not picked up as your answer.
+                    </p>
+                  </div>
+                </div>
+              </div>
+              ) : (
               <div className="p-5 rounded-2xl bg-indigo-500/5 border border-indigo-500/20 space-y-4">
                 <h3 className="text-[11px] font-black text-indigo-400 uppercase tracking-wider">How to start properly:</h3>
                 <div className="space-y-3">
@@ -349,37 +1634,103 @@ const App: React.FC = () => {
                   </div>
                 </div>
               </div>
+              )}
               
-              {status.error && (
+              {activeError && (
                 <div className="p-4 rounded-2xl bg-rose-500/10 border border-rose-500/30 animate-in slide-in-from-top-2">
                   <h3 className="text-xs font-bold text-rose-400 mb-1 flex items-center gap-2">
                     <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                     </svg>
-                    Capture Error
+                    {SESSION_ERROR_COPY[activeError.code].title}
                   </h3>
-                  <p className="text-[10px] text-rose-300 leading-relaxed">{status.error}</p>
-                  <button 
-                    onClick={startSession}
-                    className="mt-3 w-full py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-[10px] font-black uppercase text-white transition-all"
-                  >
-                    Retry Capture
-                  </button>
+                  <p className="text-[10px] text-rose-300 leading-relaxed">{SESSION_ERROR_COPY[activeError.code].message}</p>
+                  {activeError.detail && (
+                    <p className="mt-1 text-[10px] text-rose-300/60 leading-relaxed font-mono break-words">{activeError.detail}</p>
+                  )}
+                  {SESSION_ERROR_COPY[activeError.code].canRetry && (
+                    <button 
+                      onClick={() => setIsConsentOpen(true)}
+                      className="mt-3 w-full py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-[10px] font-black uppercase text-white transition-all"
+                    >
+                      Retry Capture
+                    </button>
+                  )}
                 </div>
               )}
             </div>
+            )}
           </div>
         )}
 
         <div className="flex-1 flex gap-6 overflow-hidden">
+          {isCaptionsOpen ? (
+          <CaptionsView
+            messages={messages}
+            mode={mode}
+            streamingInput={streamingInput}
+            streamingInputRole={streamingInputRole}
+            streamingOutput={streamingOutput}
+            onClose={() => setIsCaptionsOpen(false)}
+          />
+          ) : mainView === 'review' && !isSessionActive ? (
+          <FlashcardReview
+            cards={flashcards}
+            onGrade={handleGradeFlashcard}
+            onClose={() => setMainView('session')}
+          />
+          ) : mainView === 'report' && !isSessionActive && openSessionId ? (
+          <StudyReportView
+            report={report}
+            mode={mode}
+            isGenerating={isGeneratingReport}
+            error={reportError}
+            onGenerate={() => generateReport(openSessionId, documents.length > 0 ? retrievalIndex : null)}
+            onClose={() => setMainView('session')}
+          />
+          ) : (
+          <>
           <AssistantUI 
             messages={messages} 
             suggestions={suggestions} 
-            isActive={status.isActive}
+            isActive={isSessionActive}
+            mode={mode}
+            scoreCards={scoreCards}
             streamingInput={streamingInput}
+            streamingInputRole={streamingInputRole}
             streamingOutput={streamingOutput}
+            onExport={handleExport}
+            sessionAudio={isSessionActive ? null : sessionAudio}
+            onShowReport={!isSessionActive && openSessionId ? () => setMainView('report') : undefined}
+            onTogglePin={id => updateSuggestion(id, { isPinned: !suggestions.find(s => s.id === id)?.isPinned })}
+            onTagsChange={(id, tags) => updateSuggestion(id, { tags })}
+            focusTarget={focusTarget}
+            onSendText={isSessionActive && mode === 'assist' ? sendTypedMessage : undefined}
           />
+          {showOutline && (
+            <OutlinePanel
+              outline={outline}
+              startedAt={sessionStartedAt}
+              isActive={isSessionActive}
+              isSummarising={isSummarising}
+              error={outlineError}
+              pendingTurns={pendingOutlineTurns}
+              onSummarise={() => openSessionId && queueOutline(openSessionId)}
+              onJump={(id) => setFocusTarget({ type: 'message', id, nonce: Date.now() })}
+            />
+          )}
+          </>
+          )}
         </div>
+
+        {isSearchOpen && (
+          <SearchPanel
+            currentSession={searchableSession}
+            isSessionActive={isSessionActive}
+            onJump={handleJumpToResult}
+            onClose={() => setIsSearchOpen(false)}
+          />
+        )}
       </main>
 
       <div className="fixed bottom-0 left-0 w-full h-[1px] bg-gradient-to-r from-transparent via-indigo-500/20 to-transparent"></div>
@@ -1,23 +1,100 @@
 
-import React, { useRef, useEffect } from 'react';
-import { Message, Suggestion } from '../types';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
+import { Message, Suggestion, SessionMode, ScoreCard, ExportFormat, SpeakerRole, AudioSource, SuggestionKind } from '../types';
+import ScoreCardView from './ScoreCardView';
+import SuggestionCard, { SUGGESTION_KIND_META } from './SuggestionCard';
+import ExportMenu from './ExportMenu';
+import MarkdownContent from './MarkdownContent';
+import TypedMessageBox from './TypedMessageBox';
+import { speakerLabel, speakerSourceHint } from '../utils/speakers';
+import { languageName } from '../utils/languages';
+import { capSuggestions } from '../utils/suggestions';
 
 interface AssistantUIProps {
   messages: Message[];
   suggestions: Suggestion[];
   isActive: boolean;
+  mode: SessionMode;
+  scoreCards: ScoreCard[];
   streamingInput: string;
+  streamingInputRole: AudioSource;
   streamingOutput: string;
+  onExport: (format: ExportFormat) => void;
+  // Only offered once a session has ended
+  onShowReport?: () => void;
+  // Local recording of the open session, when one was made
+  sessionAudio?: { url: string; startedAt: Date } | null;
+  onTogglePin: (suggestionId: string) => void;
+  onTagsChange: (suggestionId: string, tags: string[]) => void;
+  // Set by search; the nonce lets the same result be jumped to twice
+  focusTarget?: { type: 'message' | 'card'; id: string; nonce: number } | null;
+  // Only passed while a live assist session can take typed messages
+  onSendText?: (text: string) => boolean;
 }
 
+const FOCUS_FLASH_MS = 2500;
+
+// Transcription lags speech, so seeking lands this far before the turn was first transcribed
+const SEEK_LEAD_MS = 1500;
+
+// Remote speaker on the left, the AI in the middle and the local mic on the right
+const LANE_STYLES: Record<SpeakerRole, { lane: string; bubble: string; live: string }> = {
+  remote: {
+    lane: 'items-start',
+    bubble: 'bg-amber-500/10 border border-amber-500/30 text-amber-100 rounded-tl-none shadow-[0_8px_20px_-10px_rgba(245,158,11,0.3)]',
+    live: 'bg-amber-500/5 border border-amber-500/20 text-amber-200/60 rounded-tl-none',
+  },
+  assistant: {
+    lane: 'items-center',
+    bubble: 'bg-slate-800/80 text-slate-200 border border-white/5 shadow-lg',
+    live: 'bg-slate-800/40 border border-white/5 text-slate-300/60',
+  },
+  local: {
+    lane: 'items-end',
+    bubble: 'bg-indigo-600/10 border border-indigo-500/30 text-indigo-100 rounded-tr-none shadow-[0_8px_20px_-10px_rgba(99,102,241,0.3)]',
+    live: 'bg-indigo-500/5 border border-indigo-500/20 text-indigo-200/60 rounded-tr-none',
+  },
+  user: {
+    lane: 'items-end',
+    bubble: 'bg-indigo-600/10 border border-indigo-500/30 text-indigo-100 rounded-tr-none shadow-[0_8px_20px_-10px_rgba(99,102,241,0.3)]',
+    live: 'bg-indigo-500/5 border border-indigo-500/20 text-indigo-200/60 rounded-tr-none',
+  },
+};
+
+const TYPED_BUBBLE = 'bg-indigo-950/60 border border-dashed border-indigo-400/50 text-indigo-100 rounded-tr-none';
+
+const TurnText: React.FC<{ message: Message }> = ({ message }) => (
+  <>
+    {message.role === 'assistant' ? <MarkdownContent content={message.text} /> : message.text}
+    {message.translation && (
+      <div lang={message.translation.language} className="mt-2 pt-2 border-t border-white/10 text-[13px] opacity-80">
+        <div className="text-[9px] font-black uppercase tracking-widest opacity-70">{languageName(message.translation.language)}</div>
+        {message.translation.text}
+      </div>
+    )}
+  </>
+);
+
 const AssistantUI: React.FC<AssistantUIProps> = ({ 
   messages, 
   suggestions, 
   isActive, 
+  mode,
+  scoreCards,
   streamingInput, 
-  streamingOutput 
+  streamingInputRole,
+  streamingOutput,
+  onExport,
+  onShowReport,
+  sessionAudio = null,
+  onTogglePin,
+  onTagsChange,
+  focusTarget = null,
+  onSendText
 }) => {
   const messageEndRef = useRef<HTMLDivElement>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [playbackMs, setPlaybackMs] = useState<number | null>(null);
   const suggestionEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -26,7 +103,127 @@ const AssistantUI: React.FC<AssistantUIProps> = ({
 
   useEffect(() => {
     suggestionEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [suggestions, streamingOutput]);
+  }, [suggestions, scoreCards, streamingOutput]);
+
+  const isRehearsal = mode === 'rehearsal';
+
+  useEffect(() => {
+    setPlaybackMs(null);
+  }, [sessionAudio?.url]);
+
+  const turnOffsets = useMemo(() => sessionAudio
+    ? messages.map(m => Math.max(0, (m.startTime ?? m.timestamp).getTime() - sessionAudio.startedAt.getTime() - SEEK_LEAD_MS))
+    : [], [messages, sessionAudio]);
+
+  // The turn being heard is the last one that started at or before the playback position
+  const playingMessageId = useMemo(() => {
+    if (playbackMs === null) return null;
+    const nextIdx = turnOffsets.findIndex(offset => offset > playbackMs);
+    const playingIdx = (nextIdx === -1 ? turnOffsets.length : nextIdx) - 1;
+    return playingIdx >= 0 ? messages[playingIdx].id : null;
+  }, [messages, turnOffsets, playbackMs]);
+
+  const seekToMessage = (idx: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = turnOffsets[idx] / 1000;
+    audio.play().catch(e => console.error("Playback Error:", e));
+  };
+
+  // MediaRecorder WebM files carry no duration, so the browser reports Infinity until it has scanned to the end
+  const handleLoadedMetadata = (e: React.SyntheticEvent<HTMLAudioElement>) => {
+    const audio = e.currentTarget;
+    if (audio.duration !== Infinity) return;
+    audio.addEventListener('durationchange', () => {
+      audio.currentTime = 0;
+    }, { once: true });
+    audio.currentTime = Number.MAX_SAFE_INTEGER;
+  };
+
+  const [kindFilter, setKindFilter] = useState<SuggestionKind | 'all'>('all');
+  const [sortBy, setSortBy] = useState<'newest' | 'confidence'>('newest');
+  const [showAllCards, setShowAllCards] = useState(false);
+
+  const { visibleSuggestions, hiddenCount } = useMemo(() => {
+    const filtered = kindFilter === 'all' ? suggestions : suggestions.filter(s => s.kind === kindFilter);
+    const shown = showAllCards ? filtered : capSuggestions(filtered);
+    const sorted = sortBy === 'confidence'
+      ? [...shown].sort((a, b) => (b.confidence ?? -1) - (a.confidence ?? -1))
+      : shown;
+    // Pinned cards stay at the top whichever order is chosen
+    return {
+      visibleSuggestions: [...sorted.filter(s => s.isPinned), ...sorted.filter(s => !s.isPinned)],
+      hiddenCount: filtered.length - shown.length,
+    };
+  }, [suggestions, kindFilter, sortBy, showAllCards]);
+  const [flashedId, setFlashedId] = useState<string | null>(null);
+
+  // Runs after the scroll-to-bottom effects so the jump wins
+  useEffect(() => {
+    if (!focusTarget) return;
+    if (focusTarget.type === 'card') {
+      setKindFilter('all');
+      setShowAllCards(true);
+    }
+    setFlashedId(focusTarget.id);
+    const frame = requestAnimationFrame(() => {
+      document.getElementById(`${focusTarget.type}-${focusTarget.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    });
+    const timer = window.setTimeout(() => setFlashedId(null), FOCUS_FLASH_MS);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.clearTimeout(timer);
+    };
+  }, [focusTarget]);
+
+  // Answers to typed messages are shown under the question rather than wherever they landed in time
+  const { threads, questions } = useMemo(() => {
+    const questions = new Map(messages.filter(m => m.type === 'typed').map(m => [m.id, m]));
+    const replies = new Map<string, Message[]>();
+    messages.forEach(m => {
+      if (m.replyTo && questions.has(m.replyTo)) replies.set(m.replyTo, [...(replies.get(m.replyTo) ?? []), m]);
+    });
+    const threads = messages
+      .filter(m => !(m.replyTo && questions.has(m.replyTo)))
+      .map(m => ({ message: m, replies: replies.get(m.id) ?? [] }));
+    return { threads, questions };
+  }, [messages]);
+  const messageIndex = useMemo(() => new Map(messages.map((m, idx) => [m.id, idx])), [messages]);
+
+  const presentKinds = useMemo(() => Array.from(new Set(suggestions.map(s => s.kind))), [suggestions]);
+
+  const renderTurn = (m: Message) => {
+    const bubble = m.type === 'typed' ? TYPED_BUBBLE : LANE_STYLES[m.role].bubble;
+    return (
+      <div
+        key={m.id}
+        id={`message-${m.id}`}
+        className={`flex flex-col ${LANE_STYLES[m.role].lane} rounded-2xl transition-all ${m.id === flashedId ? 'ring-2 ring-amber-400/70' : ''}`}
+      >
+        <div className={`max-w-[90%] px-4 py-3 rounded-2xl text-sm leading-relaxed transition-all ${bubble} ${
+          sessionAudio && m.id === playingMessageId ? 'ring-2 ring-emerald-400/70' : ''
+        }`}>
+          <TurnText message={m} />
+        </div>
+        <div className="mt-2 flex items-center gap-2">
+          {/* A separate control so the Markdown in the bubble is never nested inside a button */}
+          {sessionAudio && (
+            <button
+              onClick={() => seekToMessage(messageIndex.get(m.id) ?? 0)}
+              title="Play from this turn"
+              aria-label={`Play from this turn by ${speakerLabel(m.role, mode)}`}
+              className="px-2 py-0.5 rounded-md bg-white/5 hover:bg-emerald-500/20 text-[10px] font-black text-emerald-300 transition-all"
+            >
+              ▶ Play
+            </button>
+          )}
+          <span className="text-[10px] text-slate-600 font-bold uppercase tracking-widest">
+            {speakerLabel(m.role, mode)} · {m.type === 'typed' ? '⌨ Typed' : m.replyTo ? 'Reply' : speakerSourceHint(m.role)}
+          </span>
+        </div>
+      </div>
+    );
+  };
 
   if (!isActive && messages.length === 0) {
     return (
@@ -71,26 +268,50 @@ const AssistantUI: React.FC<AssistantUIProps> = ({
             <div className="w-2 h-2 rounded-full bg-indigo-500 shadow-[0_0_8px_rgba(99,102,241,0.6)]"></div>
             <h3 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">Full Audio Stream</h3>
           </div>
+          <div className="flex items-center gap-2">
+            {onShowReport && messages.length > 0 && (
+              <button
+                onClick={onShowReport}
+                className="px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-[10px] font-black uppercase tracking-wider text-slate-300 transition-all"
+              >
+                Study Report
+              </button>
+            )}
+            {messages.length > 0 && <ExportMenu onExport={onExport} />}
+          </div>
         </div>
+        {sessionAudio && (
+          <div className="px-6 py-3 border-b border-white/5 bg-white/[0.01]">
+            <audio
+              ref={audioRef}
+              src={sessionAudio.url}
+              controls
+              preload="metadata"
+              onLoadedMetadata={handleLoadedMetadata}
+              onTimeUpdate={(e) => {
+                const audio = e.currentTarget;
+                if (Number.isFinite(audio.duration)) setPlaybackMs(audio.currentTime * 1000);
+              }}
+              className="w-full h-8"
+            />
+            <p className="mt-1 text-[10px] text-slate-600 font-bold">Use ▶ Play under a turn to hear it.</p>
+          </div>
+        )}
         <div className="flex-1 overflow-y-auto p-6 space-y-6 custom-scrollbar">
-          {messages.map((m) => (
-            <div key={m.id} className={`flex flex-col ${m.role === 'assistant' ? 'items-start' : 'items-end'}`}>
-              <div className={`max-w-[90%] px-4 py-3 rounded-2xl text-sm leading-relaxed ${
-                m.role === 'assistant' 
-                  ? 'bg-slate-800/80 text-slate-200 rounded-tl-none border border-white/5 shadow-lg' 
-                  : 'bg-indigo-600/10 border border-indigo-500/30 text-indigo-100 rounded-tr-none shadow-[0_8px_20px_-10px_rgba(99,102,241,0.3)]'
-              }`}>
-                {m.text}
-              </div>
-              <span className="text-[10px] text-slate-600 mt-2 font-bold uppercase tracking-widest">
-                {m.role === 'assistant' ? 'AI Response' : 'Audio Captured'}
-              </span>
-            </div>
+          {threads.map(({ message, replies }) => (
+            <React.Fragment key={message.id}>
+              {renderTurn(message)}
+              {replies.length > 0 && (
+                <div className="ml-6 pl-4 border-l-2 border-indigo-500/30 space-y-4">
+                  {replies.map(renderTurn)}
+                </div>
+              )}
+            </React.Fragment>
           ))}
           
           {streamingInput && (
-            <div className="flex flex-col items-end animate-in fade-in slide-in-from-bottom-2 duration-300">
-              <div className="max-w-[90%] px-4 py-3 rounded-2xl text-sm leading-relaxed bg-indigo-500/5 border border-indigo-500/20 text-indigo-200/60 italic rounded-tr-none">
+            <div className={`flex flex-col ${LANE_STYLES[streamingInputRole].lane} animate-in fade-in slide-in-from-bottom-2 duration-300`}>
+              <div className={`max-w-[90%] px-4 py-3 rounded-2xl text-sm leading-relaxed italic ${LANE_STYLES[streamingInputRole].live}`}>
                 {streamingInput}...
               </div>
             </div>
@@ -103,9 +324,42 @@ const AssistantUI: React.FC<AssistantUIProps> = ({
       {/* Intelligence Column */}
       <div className="flex-[0.6] flex flex-col gap-4 overflow-hidden">
         <div className="px-2 flex items-center justify-between">
-          <h3 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">Live Assistance Hub</h3>
-          <span className="text-[10px] font-bold text-slate-600">Proactive Analysis Enabled</span>
+          <h3 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">
+            {isRehearsal ? 'Rehearsal Scorecard' : 'Live Assistance Hub'}
+          </h3>
+          {isRehearsal ? (
+            <span className="text-[10px] font-bold text-slate-600">
+              {scoreCards.length > 0
+                ? `Average ${(scoreCards.reduce((sum, c) => sum + c.score, 0) / scoreCards.length).toFixed(1)} / 10`
+                : 'Proactive Analysis Enabled'}
+            </span>
+          ) : (
+            <button
+              onClick={() => setSortBy(sort => sort === 'newest' ? 'confidence' : 'newest')}
+              className="text-[10px] font-bold text-slate-500 hover:text-slate-300 transition-all"
+            >
+              Sort: {sortBy === 'newest' ? 'Newest' : 'Confidence'}
+            </button>
+          )}
         </div>
+
+        {onSendText && <TypedMessageBox onSend={onSendText} />}
+
+        {!isRehearsal && presentKinds.length > 1 && (
+          <div className="px-2 flex flex-wrap gap-1.5">
+            {(['all', ...presentKinds] as (SuggestionKind | 'all')[]).map(kind => (
+              <button
+                key={kind}
+                onClick={() => setKindFilter(kind)}
+                className={`px-2.5 py-1 rounded-full text-[10px] font-black uppercase tracking-wider transition-all ${
+                  kindFilter === kind ? 'bg-indigo-600 text-white' : 'bg-white/5 text-slate-500 hover:text-slate-300'
+                }`}
+              >
+                {kind === 'all' ? 'All' : SUGGESTION_KIND_META[kind].label}
+              </button>
+            ))}
+          </div>
+        )}
         
         <div className="flex-1 overflow-y-auto space-y-4 custom-scrollbar pr-2 pb-6">
           {streamingOutput && (
@@ -114,17 +368,32 @@ const AssistantUI: React.FC<AssistantUIProps> = ({
               <div className="relative bg-[#161b2c] border border-indigo-500/30 rounded-2xl p-6 shadow-2xl">
                 <div className="flex items-center gap-2 mb-4">
                   <div className="w-2 h-2 rounded-full bg-indigo-400 animate-ping"></div>
-                  <span className="text-indigo-400 text-[10px] font-black uppercase tracking-widest">Generating Live Answer...</span>
+                  <span className="text-indigo-400 text-[10px] font-black uppercase tracking-widest">
+                    {isRehearsal ? 'Examiner Speaking...' : 'Generating Live Answer...'}
+                  </span>
                 </div>
-                <div className="text-indigo-100 text-lg font-bold leading-relaxed whitespace-pre-wrap animate-in fade-in duration-500">
-                  {streamingOutput}
+                <div className="text-indigo-100 text-lg font-bold leading-relaxed animate-in fade-in duration-500">
+                  <MarkdownContent content={streamingOutput} isStreaming />
                   <span className="inline-block w-2 h-5 ml-1 bg-indigo-500 animate-pulse"></span>
                 </div>
               </div>
             </div>
           )}
 
-          {suggestions.length === 0 && !streamingOutput ? (
+          {isRehearsal ? (
+            scoreCards.length === 0 && !streamingOutput ? (
+              <div className="h-full flex flex-col items-center justify-center space-y-4 opacity-30 text-center p-12 border-2 border-dashed border-white/5 rounded-[2.5rem]">
+                <div className="w-16 h-16 rounded-full bg-white/5 flex items-center justify-center">
+                  <svg className="w-8 h-8" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                  </svg>
+                </div>
+                <p className="text-sm font-medium italic">Scores appear here after each answer...</p>
+              </div>
+            ) : (
+              scoreCards.map((card, idx) => <ScoreCardView key={card.id} card={card} index={idx} />)
+            )
+          ) : suggestions.length === 0 && !streamingOutput ? (
             <div className="h-full flex flex-col items-center justify-center space-y-4 opacity-30 text-center p-12 border-2 border-dashed border-white/5 rounded-[2.5rem]">
               <div className="w-16 h-16 rounded-full bg-white/5 flex items-center justify-center">
                 <svg className="w-8 h-8" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -134,25 +403,30 @@ const AssistantUI: React.FC<AssistantUIProps> = ({
               <p className="text-sm font-medium italic">Monitoring conversation for questions...</p>
             </div>
           ) : (
-            suggestions.map((s, idx) => (
-              <div 
-                key={s.id} 
-                className={`relative group bg-[#111827] border border-white/5 hover:border-indigo-500/30 rounded-2xl p-6 transition-all duration-300 shadow-xl ${idx === 0 ? 'ring-2 ring-indigo-500/40 bg-slate-800/40 shadow-indigo-500/10' : ''}`}
-              >
-                <div className="flex justify-between items-start mb-4">
-                  <div className="flex items-center gap-2">
-                    <span className={`px-2 py-0.5 rounded text-[10px] font-black uppercase tracking-widest ${idx === 0 ? 'bg-indigo-500 text-white' : 'bg-slate-800 text-slate-500'}`}>
-                      {idx === 0 ? 'Immediate Action' : 'Historical Insight'}
-                    </span>
-                  </div>
-                  <span className="text-[10px] text-slate-600 font-bold">{s.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}</span>
-                </div>
-                <div className="text-slate-100 text-base font-semibold leading-relaxed whitespace-pre-wrap selection:bg-indigo-500/30">
-                  {s.content}
-                </div>
+            visibleSuggestions.map(s => (
+              <div key={s.id} id={`card-${s.id}`} className={`rounded-2xl transition-all ${s.id === flashedId ? 'ring-2 ring-amber-400/70' : ''}`}>
+                {s.replyTo && questions.has(s.replyTo) && (
+                  <p className="px-2 mb-1 text-[10px] font-bold text-indigo-300/80 truncate" title={questions.get(s.replyTo)?.text}>
+                    ↳ You asked: “{questions.get(s.replyTo)?.text}”
+                  </p>
+                )}
+                <SuggestionCard
+                  suggestion={s}
+                  isLatest={s.id === suggestions[0]?.id}
+                  onTogglePin={() => onTogglePin(s.id)}
+                  onTagsChange={tags => onTagsChange(s.id, tags)}
+                />
               </div>
             ))
           )}
+          {(hiddenCount > 0 || showAllCards) && !isRehearsal && (
+            <button
+              onClick={() => setShowAllCards(all => !all)}
+              className="w-full py-2 rounded-xl bg-white/5 hover:bg-white/10 text-[10px] font-black uppercase tracking-wider text-slate-400 transition-all"
+            >
+              {showAllCards ? 'Show Recent Cards Only' : `Show ${hiddenCount} Older Card${hiddenCount === 1 ? '' : 's'}`}
+            </button>
+          )}
           <div ref={suggestionEndRef} />
         </div>
       </div>
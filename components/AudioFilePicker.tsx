@@ -0,0 +1,104 @@
+import React, { useRef, useState } from 'react';
+import { ACCEPTED_AUDIO_FILES, MAX_AUDIO_FILE_MINUTES, checkAudioFile } from '../utils/audioFile';
+
+interface AudioFilePickerProps {
+  file: File | null;
+  speed: number;
+  onFileChange: (file: File | null) => void;
+  onSpeedChange: (speed: number) => void;
+}
+
+export const ANALYSIS_SPEEDS = [1, 1.5, 2, 4];
+
+const formatSize = (bytes: number) => bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+const AudioFilePicker: React.FC<AudioFilePickerProps> = ({ file, speed, onFileChange, onSpeedChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const pick = async (picked: File) => {
+    try {
+      await checkAudioFile(picked);
+      setError(null);
+      onFileChange(picked);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const dropped = e.dataTransfer.files[0];
+    if (dropped) pick(dropped);
+  };
+
+  return (
+    <div className="p-4 rounded-2xl bg-black/40 border border-white/5 space-y-3">
+      <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-wider">Analyse a Recording</h3>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={ACCEPTED_AUDIO_FILES}
+        onChange={(e) => {
+          const picked = e.target.files?.[0];
+          e.target.value = '';
+          if (picked) pick(picked);
+        }}
+        className="hidden"
+      />
+
+      {file ? (
+        <div className="flex items-center justify-between gap-2">
+          <div className="min-w-0">
+            <div className="text-xs font-bold text-slate-200 truncate">📼 {file.name}</div>
+            <div className="text-[10px] text-slate-500 font-bold uppercase tracking-wider">{formatSize(file.size)}</div>
+          </div>
+          <button
+            onClick={() => onFileChange(null)}
+            className="text-[10px] font-black uppercase text-rose-400 hover:text-rose-300 transition-all"
+          >
+            Remove
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`w-full py-4 rounded-xl border border-dashed text-[10px] font-black uppercase tracking-wider transition-all ${
+            isDragging ? 'border-indigo-500 text-indigo-300 bg-indigo-500/10' : 'border-white/10 hover:border-indigo-500/40 text-slate-400'
+          }`}
+        >
+          Drop a WAV, MP3 or WebM file (up to {MAX_AUDIO_FILE_MINUTES} min)
+        </button>
+      )}
+
+      {error && <p className="text-[10px] text-rose-300 leading-relaxed">{error}</p>}
+
+      {file && (
+        <div className="space-y-1">
+          <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Playback speed</span>
+          <div className="grid grid-cols-4 gap-1">
+            {ANALYSIS_SPEEDS.map(option => (
+              <button
+                key={option}
+                onClick={() => onSpeedChange(option)}
+                className={`py-1 rounded-lg text-[10px] font-black transition-all ${
+                  speed === option ? 'bg-indigo-600 text-white' : 'bg-white/5 text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {option}×
+              </button>
+            ))}
+          </div>
+          <p className="text-[10px] text-slate-500 leading-relaxed">Faster speeds finish sooner but may transcribe less accurately.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudioFilePicker;
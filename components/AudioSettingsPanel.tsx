@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { AudioSettings, SessionMode } from '../types';
+
+interface AudioSettingsPanelProps {
+  settings: AudioSettings;
+  mode: SessionMode;
+  // The microphone is opened once per session, so the device can only change between sessions
+  isDeviceLocked: boolean;
+  onChange: (settings: AudioSettings) => void;
+}
+
+const MAX_MIC_GAIN = 3;
+const MAX_SYSTEM_GAIN = 4;
+const MAX_PRE_ROLL_MS = 1500;
+// Hang-over shorter than one streamed frame (256 ms) would drop frames in the middle of words
+const MIN_HANG_OVER_MS = 300;
+const MAX_HANG_OVER_MS = 3000;
+const MIN_SILENCE_WARNING_SECONDS = 5;
+const MAX_SILENCE_WARNING_SECONDS = 60;
+
+const AudioSettingsPanel: React.FC<AudioSettingsPanelProps> = ({ settings, mode, isDeviceLocked, onChange }) => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices?.enumerateDevices) return;
+    const refresh = () => {
+      mediaDevices.enumerateDevices()
+        .then(all => setDevices(all.filter(d => d.kind === 'audioinput' && d.deviceId !== 'default')))
+        .catch(e => console.error("Device List Error:", e));
+    };
+    refresh();
+    mediaDevices.addEventListener('devicechange', refresh);
+    return () => mediaDevices.removeEventListener('devicechange', refresh);
+  }, [isDeviceLocked]);
+
+  // Browsers hide device names until microphone permission has been granted once
+  const hasLabels = devices.some(d => d.label);
+  const selectedMissing = settings.micDeviceId !== null && !devices.some(d => d.deviceId === settings.micDeviceId);
+
+  return (
+    <div className="p-4 rounded-2xl bg-black/40 border border-white/5 space-y-4">
+      <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-wider">Audio Input</h3>
+
+      <div className="space-y-1">
+        <label htmlFor="mic-device" className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Microphone</label>
+        <select
+          id="mic-device"
+          value={settings.micDeviceId ?? ''}
+          disabled={isDeviceLocked}
+          onChange={(e) => onChange({ ...settings, micDeviceId: e.target.value || null })}
+          className="w-full bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-slate-200 outline-none focus:border-indigo-500/50 disabled:opacity-50"
+        >
+          <option value="">System default</option>
+          {devices.map((device, idx) => (
+            <option key={device.deviceId} value={device.deviceId}>{device.label || `Microphone ${idx + 1}`}</option>
+          ))}
+        </select>
+        {!hasLabels && devices.length > 0 && (
+          <p className="text-[10px] text-slate-500 leading-relaxed">Device names appear after the microphone has been allowed once.</p>
+        )}
+        {selectedMissing && (
+          <p className="text-[10px] text-amber-300 leading-relaxed">The selected microphone is not connected. The default will be used.</p>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex justify-between text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+          <label htmlFor="mic-gain">Mic gain</label>
+          <span>{settings.micGain.toFixed(1)}×</span>
+        </div>
+        <input
+          id="mic-gain"
+          type="range"
+          min={0}
+          max={MAX_MIC_GAIN}
+          step={0.1}
+          value={settings.micGain}
+          onChange={(e) => onChange({ ...settings, micGain: Number(e.target.value) })}
+          className="w-full accent-indigo-500"
+        />
+      </div>
+
+      {mode === 'assist' && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+            <label htmlFor="system-gain">Tab audio gain</label>
+            <span>{settings.systemGain.toFixed(1)}×</span>
+          </div>
+          <input
+            id="system-gain"
+            type="range"
+            min={0}
+            max={MAX_SYSTEM_GAIN}
+            step={0.1}
+            value={settings.systemGain}
+            onChange={(e) => onChange({ ...settings, systemGain: Number(e.target.value) })}
+            className="w-full accent-amber-500"
+          />
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <div className="flex justify-between text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+          <label htmlFor="silence-warning">Warn after silence</label>
+          <span>{settings.silenceWarningSeconds} s</span>
+        </div>
+        <input
+          id="silence-warning"
+          type="range"
+          min={MIN_SILENCE_WARNING_SECONDS}
+          max={MAX_SILENCE_WARNING_SECONDS}
+          step={5}
+          value={settings.silenceWarningSeconds}
+          onChange={(e) => onChange({ ...settings, silenceWarningSeconds: Number(e.target.value) })}
+          className="w-full accent-indigo-500"
+        />
+      </div>
+
+      <div className="space-y-2 pt-3 border-t border-white/5">
+        <label className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-wider cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.vadEnabled}
+            disabled={isDeviceLocked}
+            onChange={(e) => onChange({ ...settings, vadEnabled: e.target.checked })}
+            className="accent-emerald-500"
+          />
+          Skip silence
+        </label>
+        <p className="text-[10px] text-slate-500 leading-relaxed">
+          Only audio with speech in it is streamed, which saves bandwidth and quota in long sessions.
+        </p>
+        {settings.vadEnabled && (
+          <>
+            <div className="space-y-1">
+              <div className="flex justify-between text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+                <label htmlFor="vad-pre-roll">Pre-roll</label>
+                <span>{settings.vadPreRollMs} ms</span>
+              </div>
+              <input
+                id="vad-pre-roll"
+                type="range"
+                min={0}
+                max={MAX_PRE_ROLL_MS}
+                step={50}
+                value={settings.vadPreRollMs}
+                disabled={isDeviceLocked}
+                onChange={(e) => onChange({ ...settings, vadPreRollMs: Number(e.target.value) })}
+                className="w-full accent-emerald-500 disabled:opacity-50"
+              />
+            </div>
+            <div className="space-y-1">
+              <div className="flex justify-between text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+                <label htmlFor="vad-hang-over">Hang-over</label>
+                <span>{settings.vadHangOverMs} ms</span>
+              </div>
+              <input
+                id="vad-hang-over"
+                type="range"
+                min={MIN_HANG_OVER_MS}
+                max={MAX_HANG_OVER_MS}
+                step={100}
+                value={settings.vadHangOverMs}
+                disabled={isDeviceLocked}
+                onChange={(e) => onChange({ ...settings, vadHangOverMs: Number(e.target.value) })}
+                className="w-full accent-emerald-500 disabled:opacity-50"
+              />
+            </div>
+          </>
+        )}
+        {isDeviceLocked && (
+          <p className="text-[10px] text-slate-500 leading-relaxed">Silence settings apply from the next session.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AudioSettingsPanel;
@@ -0,0 +1,184 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Message, SessionMode, AudioSource, SpeakerRole, CaptionSettings, CaptionTheme } from '../types';
+import { loadCaptionSettings, saveCaptionSettings } from '../services/preferences';
+import { speakerLabel } from '../utils/speakers';
+
+interface CaptionsViewProps {
+  messages: Message[];
+  mode: SessionMode;
+  streamingInput: string;
+  streamingInputRole: AudioSource;
+  streamingOutput: string;
+  onClose: () => void;
+}
+
+const MIN_FONT_SIZE = 20;
+const MAX_FONT_SIZE = 96;
+const FONT_STEP = 4;
+const MIN_LINES = 1;
+const MAX_LINES = 10;
+const LINE_HEIGHT = 1.4;
+
+// Speaker colours are picked per theme so each keeps at least WCAG AAA contrast against its background
+const THEMES: Record<CaptionTheme, { label: string; surface: string; text: string; muted: string; speakers: Record<SpeakerRole, string> }> = {
+  dark: {
+    label: 'White on black',
+    surface: 'bg-black',
+    text: 'text-white',
+    muted: 'text-slate-300',
+    speakers: { remote: 'text-amber-300', assistant: 'text-white', local: 'text-sky-300', user: 'text-sky-300' },
+  },
+  light: {
+    label: 'Black on white',
+    surface: 'bg-white',
+    text: 'text-black',
+    muted: 'text-slate-700',
+    speakers: { remote: 'text-amber-900', assistant: 'text-black', local: 'text-blue-900', user: 'text-blue-900' },
+  },
+  yellow: {
+    label: 'Yellow on black',
+    surface: 'bg-black',
+    text: 'text-yellow-300',
+    muted: 'text-yellow-100',
+    speakers: { remote: 'text-yellow-300', assistant: 'text-white', local: 'text-cyan-300', user: 'text-cyan-300' },
+  },
+};
+const THEME_ORDER: CaptionTheme[] = ['dark', 'light', 'yellow'];
+
+const KEY_HINTS = [
+  { keys: '+ / −', action: 'Text size' },
+  { keys: '↑ / ↓', action: 'Lines' },
+  { keys: 'T', action: 'Theme' },
+  { keys: 'S', action: 'Speaker colours' },
+  { keys: 'Esc', action: 'Close' },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const CaptionsView: React.FC<CaptionsViewProps> = ({ messages, mode, streamingInput, streamingInputRole, streamingOutput, onClose }) => {
+  const [settings, setSettings] = useState<CaptionSettings>(loadCaptionSettings);
+
+  useEffect(() => {
+    saveCaptionSettings(settings);
+  }, [settings]);
+
+  const update = (patch: Partial<CaptionSettings>) => setSettings(current => ({ ...current, ...patch }));
+  const resize = (delta: number) => setSettings(current => ({ ...current, fontSize: clamp(current.fontSize + delta, MIN_FONT_SIZE, MAX_FONT_SIZE) }));
+  const changeLines = (delta: number) => setSettings(current => ({ ...current, lineCount: clamp(current.lineCount + delta, MIN_LINES, MAX_LINES) }));
+  const cycleTheme = () => setSettings(current => ({ ...current, theme: THEME_ORDER[(THEME_ORDER.indexOf(current.theme) + 1) % THEME_ORDER.length] }));
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLSelectElement) return;
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      switch (e.key) {
+        case 'Escape': onClose(); break;
+        case '+': case '=': resize(FONT_STEP); break;
+        case '-': case '_': resize(-FONT_STEP); break;
+        case 'ArrowUp': e.preventDefault(); changeLines(1); break;
+        case 'ArrowDown': e.preventDefault(); changeLines(-1); break;
+        case 't': case 'T': cycleTheme(); break;
+        case 's': case 'S': update({ speakerColours: !settings.speakerColours }); break;
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  // Only the tail can ever be visible, so older turns are not rendered at all
+  const captions = useMemo(() => {
+    const lines = messages.slice(-settings.lineCount).map(m => ({ key: m.id, role: m.role, text: m.text, isLive: false }));
+    if (streamingInput) lines.push({ key: 'live-input', role: streamingInputRole, text: streamingInput, isLive: true });
+    if (streamingOutput) lines.push({ key: 'live-output', role: 'assistant', text: streamingOutput, isLive: true });
+    return lines;
+  }, [messages, settings.lineCount, streamingInput, streamingInputRole, streamingOutput]);
+
+  const lastTurn = messages[messages.length - 1];
+  const theme = THEMES[settings.theme];
+
+  return (
+    <div className={`flex-1 flex flex-col rounded-3xl border border-white/10 overflow-hidden shadow-2xl ${theme.surface}`}>
+      <div className="px-6 py-3 border-b border-white/10 flex flex-wrap gap-4 justify-between items-center bg-[#0b0f1a]">
+        <div className="flex items-center gap-2">
+          <div className="w-2 h-2 rounded-full bg-emerald-400 shadow-[0_0_8px_rgba(52,211,153,0.6)]"></div>
+          <h3 className="text-xs font-black uppercase tracking-[0.2em] text-slate-300">Live Captions</h3>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-xs font-bold text-slate-300">
+          <div className="flex items-center gap-1" role="group" aria-label="Text size">
+            <button onClick={() => resize(-FONT_STEP)} aria-label="Smaller text" className="w-8 h-8 rounded-lg bg-white/10 hover:bg-white/20 transition-all">A−</button>
+            <span className="w-12 text-center tabular-nums">{settings.fontSize}px</span>
+            <button onClick={() => resize(FONT_STEP)} aria-label="Larger text" className="w-8 h-8 rounded-lg bg-white/10 hover:bg-white/20 transition-all">A+</button>
+          </div>
+          <div className="flex items-center gap-1" role="group" aria-label="Visible lines">
+            <button onClick={() => changeLines(-1)} aria-label="Fewer lines" className="w-8 h-8 rounded-lg bg-white/10 hover:bg-white/20 transition-all">−</button>
+            <span className="w-16 text-center tabular-nums">{settings.lineCount} line{settings.lineCount === 1 ? '' : 's'}</span>
+            <button onClick={() => changeLines(1)} aria-label="More lines" className="w-8 h-8 rounded-lg bg-white/10 hover:bg-white/20 transition-all">+</button>
+          </div>
+          <label className="flex items-center gap-2">
+            <span className="sr-only">Theme</span>
+            <select
+              value={settings.theme}
+              onChange={(e) => update({ theme: e.target.value as CaptionTheme })}
+              className="bg-white/10 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-slate-200 outline-none focus:border-indigo-500/50"
+            >
+              {THEME_ORDER.map(value => <option key={value} value={value} className="bg-[#0b0f1a]">{THEMES[value].label}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.speakerColours}
+              onChange={(e) => update({ speakerColours: e.target.checked })}
+              className="accent-indigo-500"
+            />
+            Speaker colours
+          </label>
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-[10px] font-black uppercase tracking-wider transition-all"
+          >
+            Close (Esc)
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex flex-col justify-end p-10 overflow-hidden">
+        {captions.length === 0 ? (
+          <p className={`text-center font-bold ${theme.muted}`} style={{ fontSize: settings.fontSize * 0.6 }}>
+            Captions will appear here when someone speaks.
+          </p>
+        ) : (
+          // Clipping to a whole number of line heights keeps exactly lineCount wrapped lines on screen
+          <div
+            className="flex flex-col justify-end overflow-hidden font-bold"
+            style={{ fontSize: settings.fontSize, lineHeight: LINE_HEIGHT, maxHeight: `${settings.lineCount * LINE_HEIGHT}em` }}
+            aria-hidden="true"
+          >
+            {captions.map(line => (
+              <p key={line.key} className={settings.speakerColours ? theme.speakers[line.role] : theme.text}>
+                <span className={`${theme.muted} font-black`}>{speakerLabel(line.role, mode)}: </span>
+                {line.text}
+                {line.isLive && <span className={`inline-block w-[0.4em] h-[0.9em] ml-2 align-middle animate-pulse ${settings.theme === 'light' ? 'bg-black' : 'bg-white'}`}></span>}
+              </p>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Screen readers hear each turn once it is final rather than every partial update */}
+      <div className="sr-only" role="log" aria-live="polite" aria-atomic="false">
+        {lastTurn && <p key={lastTurn.id}>{speakerLabel(lastTurn.role, mode)}: {lastTurn.text}</p>}
+      </div>
+
+      <div className="px-6 py-2 border-t border-white/10 flex flex-wrap gap-4 bg-[#0b0f1a]">
+        {KEY_HINTS.map(hint => (
+          <span key={hint.keys} className="text-[11px] text-slate-400 font-bold">
+            <kbd className="px-1.5 py-0.5 rounded bg-white/10 text-slate-200 font-mono">{hint.keys}</kbd> {hint.action}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CaptionsView;
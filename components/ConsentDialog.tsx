@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { ConsentRecord, SessionMode } from '../types';
+import CopyButton from './CopyButton';
+import {
+  SOURCE_DESCRIPTIONS,
+  PARTICIPANT_CONFIRMATION,
+  RECORDING_CONFIRMATION,
+  sourcesForMode,
+  describeDestination,
+  buildConsentStatement,
+  buildDisclosureMessage,
+} from '../utils/consent';
+
+interface ConsentDialogProps {
+  mode: SessionMode;
+  recordAudio: boolean;
+  isMock: boolean;
+  // Set when a recorded file is analysed instead of capturing live audio
+  fileName: string | null;
+  onConfirm: (consent: ConsentRecord) => void;
+  onCancel: () => void;
+}
+
+const ConsentDialog: React.FC<ConsentDialogProps> = ({ mode, recordAudio, isMock, fileName, onConfirm, onCancel }) => {
+  const [participantsInformed, setParticipantsInformed] = useState(false);
+
+  const sources = sourcesForMode(mode, fileName);
+  const destination = describeDestination(isMock);
+  const statement = buildConsentStatement(sources, destination, recordAudio, fileName);
+  // A recording may contain anyone, so it needs the same confirmation as a live call
+  const hasOtherParticipants = sources.includes('remote') || fileName !== null;
+  const confirmation = fileName ? RECORDING_CONFIRMATION : PARTICIPANT_CONFIRMATION;
+  const canConfirm = !hasOtherParticipants || participantsInformed;
+
+  const confirm = () => {
+    if (!canConfirm) return;
+    onConfirm({
+      acceptedAt: new Date(),
+      sources,
+      analysedFile: fileName,
+      destination,
+      recordedLocally: recordAudio && !fileName,
+      participantsInformed: hasOtherParticipants && participantsInformed,
+      statement: hasOtherParticipants ? `${statement} ${confirmation}` : statement,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-6" role="dialog" aria-modal="true" aria-labelledby="consent-title">
+      <div className="w-full max-w-lg bg-[#111827] border border-white/10 rounded-3xl p-8 shadow-2xl space-y-6">
+        <div className="space-y-2">
+          <h2 id="consent-title" className="text-lg font-black text-white">Before capture starts</h2>
+          <p className="text-sm text-slate-300 leading-relaxed">{statement}</p>
+        </div>
+
+        <div className="grid grid-cols-1 gap-2">
+          {sources.map(source => (
+            <div key={source} className="flex items-center gap-3 px-4 py-2 rounded-xl bg-black/40 border border-white/5">
+              <span className="text-lg">{source === 'local' ? '🎙️' : '🖥️'}</span>
+              <span className="text-xs font-bold text-slate-200">Captures {SOURCE_DESCRIPTIONS[source]}</span>
+            </div>
+          ))}
+          {fileName && (
+            <div className="flex items-center gap-3 px-4 py-2 rounded-xl bg-black/40 border border-white/5">
+              <span className="text-lg">📼</span>
+              <span className="text-xs font-bold text-slate-200 truncate">Reads {fileName}</span>
+            </div>
+          )}
+          <div className="flex items-center gap-3 px-4 py-2 rounded-xl bg-black/40 border border-white/5">
+            <span className="text-lg">☁️</span>
+            <span className="text-xs font-bold text-slate-200">Sent to {destination}</span>
+          </div>
+        </div>
+
+        {hasOtherParticipants && (
+          <div className="space-y-3">
+            <label className="flex items-start gap-3 p-3 rounded-2xl bg-amber-500/10 border border-amber-500/30 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={participantsInformed}
+                onChange={(e) => setParticipantsInformed(e.target.checked)}
+                className="mt-0.5 accent-amber-500"
+              />
+              <span className="text-[11px] text-amber-200 leading-relaxed font-bold">{confirmation}</span>
+            </label>
+            {!fileName && (
+            <div className="p-3 rounded-2xl bg-black/40 border border-white/5 space-y-2">
+              <p className="text-[11px] text-slate-400 leading-relaxed">{buildDisclosureMessage(destination, recordAudio)}</p>
+              <CopyButton
+                text={buildDisclosureMessage(destination, recordAudio)}
+                label="Copy message for the call chat"
+                className="text-[10px] font-black uppercase tracking-wider text-indigo-400 hover:text-indigo-300 transition-all"
+              />
+            </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            onClick={onCancel}
+            className="flex-1 py-2.5 rounded-xl bg-white/5 hover:bg-white/10 text-sm font-bold text-slate-300 transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={confirm}
+            disabled={!canConfirm}
+            className="flex-1 py-2.5 rounded-xl bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 text-sm font-bold text-white transition-all"
+          >
+            I Agree, Start Capture
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConsentDialog;
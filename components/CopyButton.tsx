@@ -0,0 +1,37 @@
+import React, { useEffect, useState } from 'react';
+
+interface CopyButtonProps {
+  text: string;
+  label: string;
+  className?: string;
+}
+
+const COPIED_FEEDBACK_MS = 2000;
+
+const CopyButton: React.FC<CopyButtonProps> = ({ text, label, className = '' }) => {
+  const [state, setState] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+  useEffect(() => {
+    if (state === 'idle') return;
+    const timer = setTimeout(() => setState('idle'), COPIED_FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [state]);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setState('copied');
+    } catch (e) {
+      console.error("Clipboard Error:", e);
+      setState('failed');
+    }
+  };
+
+  return (
+    <button onClick={copy} className={className}>
+      {state === 'copied' ? 'Copied' : state === 'failed' ? 'Copy failed' : label}
+    </button>
+  );
+};
+
+export default CopyButton;
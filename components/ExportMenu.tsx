@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { ExportFormat } from '../types';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+}
+
+const FORMATS: { value: ExportFormat; label: string; hint: string }[] = [
+  { value: 'markdown', label: 'Markdown', hint: 'Notes with speaker headings' },
+  { value: 'json', label: 'JSON', hint: 'Full session, can be imported' },
+  { value: 'srt', label: 'SRT', hint: 'Captions for video players' },
+  { value: 'vtt', label: 'WebVTT', hint: 'Captions for the web' },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-[10px] font-black uppercase tracking-wider text-slate-300 transition-all"
+      >
+        Export
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-56 p-1 rounded-xl bg-[#161b2c] border border-white/10 shadow-2xl z-20">
+          {FORMATS.map(format => (
+            <button
+              key={format.value}
+              onClick={() => { setIsOpen(false); onExport(format.value); }}
+              className="w-full text-left px-3 py-2 rounded-lg hover:bg-white/5 transition-all"
+            >
+              <div className="text-xs font-bold text-slate-200">{format.label}</div>
+              <div className="text-[10px] text-slate-500">{format.hint}</div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,157 @@
+import React, { useRef, useState } from 'react';
+import { Flashcard } from '../types';
+import { CardDraft, parseAnkiCsv, toAnkiCsv } from '../utils/flashcards';
+import { downloadText } from '../utils/transcriptExport';
+import { isDue } from '../utils/spacedRepetition';
+
+interface FlashcardDeckProps {
+  cards: Flashcard[];
+  onUpdate: (card: Flashcard) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onImport: (drafts: CardDraft[]) => Promise<number>;
+  onStartReview: () => void;
+}
+
+const formatDue = (card: Flashcard) => {
+  if (isDue(card)) return 'Due now';
+  const days = Math.ceil((card.dueAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+  return days === 1 ? 'Due tomorrow' : `Due in ${days} days`;
+};
+
+const FlashcardDeck: React.FC<FlashcardDeckProps> = ({ cards, onUpdate, onDelete, onImport, onStartReview }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CardDraft>({ front: '', back: '' });
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const dueCount = cards.filter(card => isDue(card)).length;
+
+  const startEditing = (card: Flashcard) => {
+    setEditingId(card.id);
+    setDraft({ front: card.front, back: card.back });
+  };
+
+  const commitEdit = async (card: Flashcard) => {
+    setEditingId(null);
+    const front = draft.front.trim();
+    const back = draft.back.trim();
+    if (!front || !back || (front === card.front && back === card.back)) return;
+    await onUpdate({ ...card, front, back });
+  };
+
+  const handleDelete = async (card: Flashcard) => {
+    if (!window.confirm('Delete this flashcard? This cannot be undone.')) return;
+    await onDelete(card.id);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const added = await onImport(parseAnkiCsv(await file.text()));
+      setNotice({ text: `Imported ${added} new card${added === 1 ? '' : 's'}.`, isError: false });
+    } catch (err: any) {
+      console.error("Flashcard Import Error:", err);
+      setNotice({ text: err.message, isError: true });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <button
+        onClick={onStartReview}
+        disabled={dueCount === 0}
+        className="w-full py-2.5 rounded-xl bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 text-[10px] font-black uppercase tracking-wider text-white transition-all"
+      >
+        {dueCount > 0 ? `Review ${dueCount} Due Card${dueCount === 1 ? '' : 's'}` : 'Nothing Due'}
+      </button>
+
+      <div className="grid grid-cols-2 gap-2">
+        <input ref={fileInputRef} type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleImport} className="hidden" />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="py-2 rounded-xl border border-dashed border-white/10 hover:border-indigo-500/40 text-[10px] font-black uppercase tracking-wider text-slate-400 transition-all"
+        >
+          Import Anki CSV
+        </button>
+        <button
+          onClick={() => downloadText(toAnkiCsv(cards), 'viva-guard-flashcards.csv', 'text/csv')}
+          disabled={cards.length === 0}
+          className="py-2 rounded-xl border border-dashed border-white/10 hover:border-indigo-500/40 disabled:opacity-40 text-[10px] font-black uppercase tracking-wider text-slate-400 transition-all"
+        >
+          Export Anki CSV
+        </button>
+      </div>
+      {notice && (
+        <p className={`text-[10px] leading-relaxed ${notice.isError ? 'text-rose-300' : 'text-emerald-300'}`}>{notice.text}</p>
+      )}
+
+      {cards.length === 0 && (
+        <div className="flex flex-col items-center justify-center text-center opacity-40 p-6">
+          <p className="text-sm font-medium italic">No flashcards yet. Use "Make Cards" on a saved session in History.</p>
+        </div>
+      )}
+
+      {cards.map(card => (
+        <div key={card.id} className="p-4 rounded-2xl bg-black/40 border border-white/5 hover:border-indigo-500/30 transition-all">
+          {editingId === card.id ? (
+            <div className="space-y-2">
+              <textarea
+                autoFocus
+                value={draft.front}
+                onChange={(e) => setDraft(d => ({ ...d, front: e.target.value }))}
+                className="w-full h-16 bg-black/40 border border-indigo-500/50 rounded-lg px-2 py-1 text-sm outline-none resize-none"
+              />
+              <textarea
+                value={draft.back}
+                onChange={(e) => setDraft(d => ({ ...d, back: e.target.value }))}
+                className="w-full h-24 bg-black/40 border border-indigo-500/50 rounded-lg px-2 py-1 text-sm outline-none resize-none"
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={() => commitEdit(card)}
+                  className="px-3 py-1 rounded-lg bg-indigo-600/80 hover:bg-indigo-500 text-[10px] font-black uppercase text-white transition-all"
+                >
+                  Save
+                </button>
+                <button
+                  onClick={() => setEditingId(null)}
+                  className="px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-[10px] font-black uppercase text-slate-300 transition-all"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="text-sm font-bold text-slate-200 line-clamp-2">{card.front}</div>
+              <div className="mt-1 text-[11px] text-slate-400 leading-relaxed line-clamp-2">{card.back}</div>
+              <div className="mt-3 flex items-center justify-between gap-2">
+                <span className={`text-[10px] font-bold uppercase tracking-wider ${isDue(card) ? 'text-amber-400' : 'text-slate-500'}`}>
+                  {formatDue(card)}
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => startEditing(card)}
+                    className="px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-[10px] font-black uppercase text-slate-300 transition-all"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(card)}
+                    className="px-3 py-1 rounded-lg bg-rose-600/10 hover:bg-rose-600/20 text-[10px] font-black uppercase text-rose-400 transition-all"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default FlashcardDeck;
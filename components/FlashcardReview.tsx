@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { Flashcard, ReviewGrade } from '../types';
+import { isDue } from '../utils/spacedRepetition';
+
+interface FlashcardReviewProps {
+  cards: Flashcard[];
+  // Returns the rescheduled card
+  onGrade: (card: Flashcard, grade: ReviewGrade) => Flashcard;
+  onClose: () => void;
+}
+
+const GRADES: { grade: ReviewGrade; key: string; label: string; style: string }[] = [
+  { grade: 'again', key: '1', label: 'Again', style: 'bg-rose-600/20 border-rose-500/40 text-rose-300 hover:bg-rose-600/30' },
+  { grade: 'hard', key: '2', label: 'Hard', style: 'bg-amber-600/20 border-amber-500/40 text-amber-300 hover:bg-amber-600/30' },
+  { grade: 'good', key: '3', label: 'Good', style: 'bg-emerald-600/20 border-emerald-500/40 text-emerald-300 hover:bg-emerald-600/30' },
+  { grade: 'easy', key: '4', label: 'Easy', style: 'bg-sky-600/20 border-sky-500/40 text-sky-300 hover:bg-sky-600/30' },
+];
+
+const FlashcardReview: React.FC<FlashcardReviewProps> = ({ cards, onGrade, onClose }) => {
+  // The queue is fixed when the review starts; cards marked "Again" go back to the end of it
+  const [queue, setQueue] = useState<Flashcard[]>(() => cards.filter(card => isDue(card)));
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  const current = queue[0];
+
+  const grade = (value: ReviewGrade) => {
+    if (!current) return;
+    const rescheduled = onGrade(current, value);
+    setReviewedCount(n => n + 1);
+    setIsRevealed(false);
+    setQueue(([, ...rest]) => value === 'again' ? [...rest, rescheduled] : rest);
+  };
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === 'Escape') {
+        onClose();
+      } else if (!isRevealed && (e.key === ' ' || e.key === 'Enter')) {
+        e.preventDefault();
+        setIsRevealed(true);
+      } else if (isRevealed) {
+        const match = GRADES.find(g => g.key === e.key);
+        if (match) grade(match.grade);
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  return (
+    <div className="flex-1 flex flex-col bg-black/40 rounded-3xl border border-white/5 overflow-hidden shadow-2xl">
+      <div className="px-6 py-4 border-b border-white/5 flex justify-between items-center bg-white/[0.02]">
+        <div className="flex items-center gap-2">
+          <div className="w-2 h-2 rounded-full bg-indigo-500 shadow-[0_0_8px_rgba(99,102,241,0.6)]"></div>
+          <h3 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">Flashcard Review</h3>
+          <span className="text-[10px] text-slate-600 font-bold">{reviewedCount} reviewed · {queue.length} left</span>
+        </div>
+        <button
+          onClick={onClose}
+          className="px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-[10px] font-black uppercase tracking-wider text-slate-300 transition-all"
+        >
+          Finish (Esc)
+        </button>
+      </div>
+
+      <div className="flex-1 flex flex-col items-center justify-center p-12 gap-8">
+        {!current ? (
+          <div className="text-center space-y-2">
+            <div className="text-3xl">✅</div>
+            <p className="text-sm text-slate-300 font-bold">All due cards reviewed.</p>
+            <p className="text-[11px] text-slate-500">Come back when more cards are due.</p>
+          </div>
+        ) : (
+          <>
+            <div className="w-full max-w-2xl bg-[#111827] border border-white/5 rounded-3xl p-8 shadow-xl space-y-6">
+              <p className="text-lg font-bold text-white leading-relaxed whitespace-pre-wrap">{current.front}</p>
+              {isRevealed && (
+                <div className="pt-6 border-t border-white/10">
+                  <p className="text-base text-slate-300 leading-relaxed whitespace-pre-wrap">{current.back}</p>
+                </div>
+              )}
+            </div>
+
+            {isRevealed ? (
+              <div className="grid grid-cols-4 gap-3 w-full max-w-2xl">
+                {GRADES.map(g => (
+                  <button
+                    key={g.grade}
+                    onClick={() => grade(g.grade)}
+                    className={`py-3 rounded-xl border text-[11px] font-black uppercase tracking-wider transition-all ${g.style}`}
+                  >
+                    {g.label} <span className="opacity-60">({g.key})</span>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <button
+                onClick={() => setIsRevealed(true)}
+                className="px-8 py-3 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-[11px] font-black uppercase tracking-wider text-white transition-all"
+              >
+                Show Answer (Space)
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FlashcardReview;
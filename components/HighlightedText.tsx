@@ -0,0 +1,26 @@
+import React from 'react';
+
+interface HighlightedTextProps {
+  text: string;
+  // Lower-case search terms
+  terms: string[];
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, terms }) => {
+  if (terms.length === 0) return <>{text}</>;
+  // Longer terms first so "graph" does not split a match for "graphs"
+  const pattern = new RegExp(`(${[...terms].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})`, 'gi');
+  return (
+    <>
+      {text.split(pattern).map((part, idx) =>
+        idx % 2 === 1
+          ? <mark key={idx} className="bg-amber-400/30 text-amber-100 rounded px-0.5">{part}</mark>
+          : <React.Fragment key={idx}>{part}</React.Fragment>
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
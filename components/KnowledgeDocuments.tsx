@@ -0,0 +1,70 @@
+import React, { useRef, useState } from 'react';
+import { KnowledgeDocument } from '../types';
+import { ingestFile, ACCEPTED_KNOWLEDGE_FILES } from '../services/knowledgeIngest';
+
+interface KnowledgeDocumentsProps {
+  documents: KnowledgeDocument[];
+  onChange: (documents: KnowledgeDocument[]) => void;
+}
+
+const KnowledgeDocuments: React.FC<KnowledgeDocumentsProps> = ({ documents, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isIngesting, setIsIngesting] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsIngesting(true);
+    const results = await Promise.allSettled(files.map(ingestFile));
+    setIsIngesting(false);
+
+    const added = results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+    setErrors(results.flatMap(r => r.status === 'rejected' ? [r.reason?.message ?? String(r.reason)] : []));
+    // Re-uploading a file replaces the earlier copy instead of indexing it twice
+    const addedNames = new Set(added.map(d => d.name));
+    onChange([...documents.filter(d => !addedNames.has(d.name)), ...added]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <input ref={fileInputRef} type="file" multiple accept={ACCEPTED_KNOWLEDGE_FILES} onChange={handleFiles} className="hidden" />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isIngesting}
+        className="w-full py-2 rounded-xl border border-dashed border-white/10 hover:border-indigo-500/40 disabled:opacity-50 text-[10px] font-black uppercase tracking-wider text-slate-400 transition-all"
+      >
+        {isIngesting ? 'Reading documents...' : 'Add Notes (Markdown, Text, PDF)'}
+      </button>
+
+      {documents.map(doc => (
+        <div key={doc.id} className="flex items-center justify-between gap-2 px-3 py-2 rounded-xl bg-black/40 border border-white/5">
+          <div className="min-w-0">
+            <div className="text-xs font-bold text-slate-200 truncate">📄 {doc.name}</div>
+            <div className="text-[10px] text-slate-500 font-bold uppercase tracking-wider">{doc.chunks.length} sections indexed</div>
+          </div>
+          <button
+            onClick={() => onChange(documents.filter(d => d.id !== doc.id))}
+            className="text-[10px] font-black uppercase text-rose-400 hover:text-rose-300 transition-all"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+
+      {documents.length > 0 && (
+        <p className="text-[10px] text-slate-500 leading-relaxed">
+          Documents are kept in this browser for every session. They are not included in session or profile exports.
+        </p>
+      )}
+
+      {errors.map(error => (
+        <p key={error} className="text-[10px] text-rose-300 leading-relaxed">{error}</p>
+      ))}
+    </div>
+  );
+};
+
+export default KnowledgeDocuments;
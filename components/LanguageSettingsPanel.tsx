@@ -0,0 +1,45 @@
+import React from 'react';
+import { LanguageSettings } from '../types';
+import { LANGUAGES } from '../utils/languages';
+
+interface LanguageSettingsPanelProps {
+  settings: LanguageSettings;
+  onChange: (settings: LanguageSettings) => void;
+}
+
+const LanguageSettingsPanel: React.FC<LanguageSettingsPanelProps> = ({ settings, onChange }) => (
+  <div className="p-4 rounded-2xl bg-black/40 border border-white/5 space-y-4">
+    <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-wider">Language</h3>
+
+    <div className="space-y-1">
+      <label htmlFor="spoken-language" className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Spoken language</label>
+      <select
+        id="spoken-language"
+        value={settings.spokenLanguage ?? ''}
+        onChange={(e) => onChange({ ...settings, spokenLanguage: e.target.value || null })}
+        className="w-full bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-slate-200 outline-none focus:border-indigo-500/50"
+      >
+        <option value="">Detect automatically</option>
+        {LANGUAGES.map(language => <option key={language.code} value={language.code}>{language.name}</option>)}
+      </select>
+    </div>
+
+    <div className="space-y-1">
+      <label htmlFor="translation-language" className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Translate turns into</label>
+      <select
+        id="translation-language"
+        value={settings.translationLanguage ?? ''}
+        onChange={(e) => onChange({ ...settings, translationLanguage: e.target.value || null })}
+        className="w-full bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-slate-200 outline-none focus:border-indigo-500/50"
+      >
+        <option value="">No translation</option>
+        {LANGUAGES.map(language => <option key={language.code} value={language.code}>{language.name}</option>)}
+      </select>
+      {settings.translationLanguage && (
+        <p className="text-[10px] text-slate-500 leading-relaxed">Each finished turn is translated and shown under the original. Translations are included in exports.</p>
+      )}
+    </div>
+  </div>
+);
+
+export default LanguageSettingsPanel;
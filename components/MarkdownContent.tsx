@@ -0,0 +1,73 @@
+import React, { useMemo } from 'react';
+import Markdown, { Components, Options } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import type { Root, RootContent } from 'mdast';
+import { closePartialMarkdown } from '../utils/partialMarkdown';
+
+interface MarkdownContentProps {
+  content: string;
+  // Closes half-written syntax so the text renders cleanly while it is still arriving
+  isStreaming?: boolean;
+  className?: string;
+}
+
+// Raw HTML from the model is shown as the text it is, never parsed into elements
+const remarkHtmlAsText = () => (tree: Root) => {
+  const visit = (node: Root | RootContent) => {
+    if (node.type === 'html') {
+      (node as RootContent).type = 'text';
+      return;
+    }
+    if ('children' in node) node.children.forEach(visit);
+  };
+  visit(tree);
+};
+
+const REMARK_PLUGINS = [remarkGfm, remarkMath, remarkHtmlAsText];
+// trust: false stops \href, \url and \htmlClass from producing links or attributes
+const REHYPE_PLUGINS: Options['rehypePlugins'] = [
+  [rehypeKatex, { throwOnError: false, trust: false, strict: 'ignore', errorColor: '#fca5a5' }],
+  [rehypeHighlight, { detect: true }],
+];
+
+const COMPONENTS: Components = {
+  p: ({ children }) => <p className="my-2 first:mt-0 last:mb-0">{children}</p>,
+  ul: ({ children }) => <ul className="my-2 pl-5 list-disc space-y-1 marker:text-indigo-400">{children}</ul>,
+  ol: ({ children }) => <ol className="my-2 pl-5 list-decimal space-y-1 marker:text-indigo-400">{children}</ol>,
+  h1: ({ children }) => <h4 className="mt-3 mb-1 text-base font-black text-white">{children}</h4>,
+  h2: ({ children }) => <h4 className="mt-3 mb-1 text-base font-black text-white">{children}</h4>,
+  h3: ({ children }) => <h5 className="mt-3 mb-1 text-sm font-black text-white">{children}</h5>,
+  strong: ({ children }) => <strong className="font-black text-white">{children}</strong>,
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer nofollow" className="text-indigo-300 underline underline-offset-2 hover:text-indigo-200">{children}</a>
+  ),
+  blockquote: ({ children }) => <blockquote className="my-2 pl-3 border-l-2 border-indigo-500/50 text-slate-300">{children}</blockquote>,
+  pre: ({ children }) => <pre className="my-2 p-3 rounded-xl bg-black/60 border border-white/5 overflow-x-auto text-[13px] leading-relaxed font-mono">{children}</pre>,
+  table: ({ children }) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="w-full text-sm border-collapse">{children}</table>
+    </div>
+  ),
+  th: ({ children, style }) => <th style={style} className="px-2 py-1 border-b border-white/20 text-left font-black text-white">{children}</th>,
+  td: ({ children, style }) => <td style={style} className="px-2 py-1 border-b border-white/5 align-top">{children}</td>,
+  img: ({ alt }) => <span className="text-slate-500 italic">[image: {alt}]</span>,
+};
+
+// Inline code gets a chip; code inside <pre> keeps the highlighter's colours
+const INLINE_CODE = '[&_:not(pre)>code]:px-1 [&_:not(pre)>code]:py-0.5 [&_:not(pre)>code]:rounded [&_:not(pre)>code]:bg-white/10 [&_:not(pre)>code]:font-mono [&_:not(pre)>code]:text-[0.9em]';
+
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ content, isStreaming = false, className = '' }) => {
+  const source = useMemo(() => isStreaming ? closePartialMarkdown(content) : content, [content, isStreaming]);
+  return (
+    <div className={`break-words [&_.katex-display]:overflow-x-auto [&_.katex-display]:py-1 ${INLINE_CODE} ${className}`}>
+      <Markdown remarkPlugins={REMARK_PLUGINS} rehypePlugins={REHYPE_PLUGINS} components={COMPONENTS}>
+        {source}
+      </Markdown>
+    </div>
+  );
+};
+
+export default MarkdownContent;
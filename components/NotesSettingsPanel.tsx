@@ -0,0 +1,48 @@
+import React from 'react';
+import { NotesSettings } from '../types';
+
+interface NotesSettingsPanelProps {
+  settings: NotesSettings;
+  onChange: (settings: NotesSettings) => void;
+}
+
+const MIN_INTERVAL_MINUTES = 2;
+const MAX_INTERVAL_MINUTES = 30;
+
+const NotesSettingsPanel: React.FC<NotesSettingsPanelProps> = ({ settings, onChange }) => (
+  <div className="p-4 rounded-2xl bg-black/40 border border-white/5 space-y-3">
+    <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-wider">Notes</h3>
+    <label className="flex items-center gap-2 text-xs font-bold text-slate-200 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={settings.enabled}
+        onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+        className="accent-indigo-500"
+      />
+      Build an outline as I go
+    </label>
+    <p className="text-[10px] text-slate-500 leading-relaxed">
+      Every few minutes the latest turns are condensed into a titled section with key points. Click any entry to jump to that part of the transcript.
+    </p>
+    {settings.enabled && (
+      <div className="space-y-1">
+        <div className="flex justify-between text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+          <label htmlFor="notes-interval">Summarise every</label>
+          <span>{settings.intervalMinutes} min</span>
+        </div>
+        <input
+          id="notes-interval"
+          type="range"
+          min={MIN_INTERVAL_MINUTES}
+          max={MAX_INTERVAL_MINUTES}
+          step={1}
+          value={settings.intervalMinutes}
+          onChange={(e) => onChange({ ...settings, intervalMinutes: Number(e.target.value) })}
+          className="w-full accent-indigo-500"
+        />
+      </div>
+    )}
+  </div>
+);
+
+export default NotesSettingsPanel;
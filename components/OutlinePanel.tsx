@@ -0,0 +1,82 @@
+import React from 'react';
+import { OutlineSection } from '../types';
+
+interface OutlinePanelProps {
+  outline: OutlineSection[];
+  // Times are shown relative to this when it is known
+  startedAt: Date | null;
+  isActive: boolean;
+  isSummarising: boolean;
+  error: string | null;
+  // Finished turns no section covers yet
+  pendingTurns: number;
+  onSummarise: () => void;
+  onJump: (messageId: string) => void;
+}
+
+const formatTime = (time: Date, startedAt: Date | null) => {
+  if (!startedAt) return time.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const seconds = Math.max(0, Math.floor((time.getTime() - startedAt.getTime()) / 1000));
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${Math.floor(seconds / 3600)}:${pad(Math.floor((seconds % 3600) / 60))}:${pad(seconds % 60)}`;
+};
+
+const OutlinePanel: React.FC<OutlinePanelProps> = ({ outline, startedAt, isActive, isSummarising, error, pendingTurns, onSummarise, onJump }) => (
+  <div className="w-80 flex-shrink-0 flex flex-col bg-black/40 rounded-3xl border border-white/5 overflow-hidden shadow-2xl">
+    <div className="px-6 py-4 border-b border-white/5 flex justify-between items-center bg-white/[0.02]">
+      <div className="flex items-center gap-2">
+        <div className={`w-2 h-2 rounded-full bg-sky-500 shadow-[0_0_8px_rgba(14,165,233,0.6)] ${isSummarising ? 'animate-pulse' : ''}`}></div>
+        <h3 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">Outline</h3>
+      </div>
+      <button
+        onClick={onSummarise}
+        disabled={isSummarising || pendingTurns === 0}
+        className="px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10 disabled:opacity-40 text-[10px] font-black uppercase tracking-wider text-slate-300 transition-all"
+      >
+        {isSummarising ? 'Summarising...' : isActive ? 'Summarise Now' : outline.length === 0 ? 'Build Outline' : 'Outline the Rest'}
+      </button>
+    </div>
+
+    <div className="flex-1 overflow-y-auto p-4 space-y-5 custom-scrollbar">
+      {outline.length === 0 && !isSummarising && (
+        <p className="px-2 text-[11px] text-slate-500 leading-relaxed">
+          {isActive
+            ? 'The first section appears after the summary interval. Use Summarise Now to condense what has been said so far.'
+            : 'This session has no outline yet.'}
+        </p>
+      )}
+      {outline.map(section => (
+        <section key={section.id} className="space-y-2">
+          <button
+            onClick={() => onJump(section.firstMessageId)}
+            className="w-full text-left px-2 py-1 rounded-lg hover:bg-white/5 transition-all"
+          >
+            <span className="block text-[10px] font-mono text-sky-400">
+              {formatTime(section.startTime, startedAt)}–{formatTime(section.endTime, startedAt)}
+            </span>
+            <span className="block text-sm font-bold text-slate-200 leading-snug">{section.title}</span>
+          </button>
+          {section.summary && <p className="px-2 text-[11px] text-slate-400 leading-relaxed">{section.summary}</p>}
+          {section.points.length > 0 && (
+            <ul className="ml-2 pl-3 border-l border-white/10 space-y-1">
+              {section.points.map((point, idx) => (
+                <li key={idx}>
+                  <button
+                    onClick={() => onJump(point.messageId ?? section.firstMessageId)}
+                    className="w-full flex gap-2 text-left px-2 py-1 rounded-lg hover:bg-white/5 transition-all"
+                  >
+                    <span className="flex-shrink-0 text-[10px] font-mono text-slate-600 pt-0.5">{formatTime(point.timestamp, startedAt)}</span>
+                    <span className="text-[11px] text-slate-300 leading-relaxed">{point.text}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      ))}
+      {error && <p className="px-2 text-[10px] text-rose-300 leading-relaxed">{error}</p>}
+    </div>
+  </div>
+);
+
+export default OutlinePanel;
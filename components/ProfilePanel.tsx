@@ -0,0 +1,215 @@
+import React, { useRef, useState } from 'react';
+import { ProfileImportResult, SessionProfile } from '../types';
+import { PRESET_PROFILES } from '../utils/profilePresets';
+import { parseProfilesJson, toProfilesJson } from '../utils/profileExport';
+import { downloadText } from '../utils/transcriptExport';
+import { BUILTIN_VARIABLES, customVariables } from '../utils/templates';
+import { DEFAULT_GEMINI_MODEL } from '../services/geminiProvider';
+
+interface ProfilePanelProps {
+  profiles: SessionProfile[];
+  // The loaded profile with any unsaved edits to its template, variables and model
+  activeProfile: SessionProfile | null;
+  onSelect: (profile: SessionProfile | null) => void;
+  onEdit: (patch: Partial<SessionProfile>) => void;
+  // A name saves the current setup as a new profile; null overwrites the active one
+  onSave: (name: string | null) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  // Resolves to the number of profiles imported
+  onImport: (profiles: SessionProfile[]) => Promise<ProfileImportResult>;
+}
+
+const KNOWN_MODELS = [DEFAULT_GEMINI_MODEL, 'gemini-live-2.5-flash-preview', 'gemini-2.0-flash-live-001'];
+
+const ProfilePanel: React.FC<ProfilePanelProps> = ({ profiles, activeProfile, onSelect, onEdit, onSave, onDelete, onImport }) => {
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [newName, setNewName] = useState<string | null>(null);
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const allProfiles = [...PRESET_PROFILES, ...profiles];
+  const variables = activeProfile?.instructionTemplate ? customVariables(activeProfile.instructionTemplate) : [];
+  const canOverwrite = activeProfile !== null && !activeProfile.isPreset;
+
+  const run = async (action: () => Promise<string>) => {
+    try {
+      setNotice({ text: await action(), isError: false });
+    } catch (err: any) {
+      console.error("Profile Error:", err);
+      setNotice({ text: err.message, isError: true });
+    }
+  };
+
+  const commitNewName = () => {
+    const name = newName?.trim();
+    setNewName(null);
+    if (name) run(async () => { await onSave(name); return `Saved "${name}".`; });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    run(async () => {
+      const { saved, copied } = await onImport(parseProfilesJson(await file.text()));
+      const imported = `Imported ${saved.length} profile${saved.length === 1 ? '' : 's'}.`;
+      return copied.length === 0
+        ? imported
+        : `${imported} ${copied.map(name => `"${name}"`).join(', ')} already existed and ${copied.length === 1 ? 'was' : 'were'} saved as ${copied.length === 1 ? 'a copy' : 'copies'}.`;
+    });
+  };
+
+  const handleDelete = (profile: SessionProfile) => {
+    if (!window.confirm(`Delete the profile "${profile.name}"? This cannot be undone.`)) return;
+    run(async () => { await onDelete(profile.id); return `Deleted "${profile.name}".`; });
+  };
+
+  return (
+    <div className="p-4 rounded-2xl bg-black/40 border border-white/5 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-wider">Profile</h3>
+        <div className="flex gap-2">
+          <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="text-[10px] font-black uppercase text-slate-500 hover:text-slate-300 transition-all"
+          >
+            Import
+          </button>
+          <button
+            onClick={() => downloadText(toProfilesJson(profiles), 'viva-guard-profiles.json', 'application/json')}
+            disabled={profiles.length === 0}
+            className="text-[10px] font-black uppercase text-slate-500 hover:text-slate-300 disabled:opacity-40 transition-all"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+
+      <select
+        aria-label="Session profile"
+        value={activeProfile?.id ?? ''}
+        onChange={(e) => onSelect(allProfiles.find(p => p.id === e.target.value) ?? null)}
+        className="w-full bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-slate-200 outline-none focus:border-indigo-500/50"
+      >
+        <option value="">No profile (built-in instructions)</option>
+        <optgroup label="Presets">
+          {PRESET_PROFILES.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </optgroup>
+        {profiles.length > 0 && (
+          <optgroup label="My profiles">
+            {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </optgroup>
+        )}
+      </select>
+
+      {activeProfile && (
+        <div className="space-y-2">
+          <button
+            onClick={() => setIsEditorOpen(open => !open)}
+            className="text-[10px] font-black uppercase tracking-wider text-indigo-400 hover:text-indigo-300 transition-all"
+          >
+            {isEditorOpen ? '▾' : '▸'} Instructions & Model
+          </button>
+
+          {isEditorOpen && (
+            <div className="space-y-3">
+              <textarea
+                value={activeProfile.instructionTemplate ?? ''}
+                onChange={(e) => onEdit({ instructionTemplate: e.target.value.trim() ? e.target.value : null })}
+                placeholder="Leave empty to use the built-in instructions for this mode. Use {{name}} for variables."
+                aria-label="Instruction template"
+                className="w-full h-40 bg-black/40 border border-white/10 rounded-lg p-2 text-[11px] font-mono text-slate-200 outline-none resize-y focus:border-indigo-500/50 placeholder:text-slate-600"
+              />
+              <p className="text-[10px] text-slate-500 leading-relaxed">
+                Filled in automatically: {Object.keys(BUILTIN_VARIABLES).map(name => `{{${name}}}`).join(', ')}
+              </p>
+
+              {variables.map(name => (
+                <div key={name} className="space-y-1">
+                  <label htmlFor={`profile-var-${name}`} className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{name.replace(/[_-]/g, ' ')}</label>
+                  <input
+                    id={`profile-var-${name}`}
+                    value={activeProfile.variables[name] ?? ''}
+                    onChange={(e) => onEdit({ variables: { ...activeProfile.variables, [name]: e.target.value } })}
+                    className="w-full bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-slate-200 outline-none focus:border-indigo-500/50"
+                  />
+                </div>
+              ))}
+
+              <div className="space-y-1">
+                <label htmlFor="profile-model" className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Live model</label>
+                <input
+                  id="profile-model"
+                  list="profile-models"
+                  value={activeProfile.model ?? ''}
+                  onChange={(e) => onEdit({ model: e.target.value.trim() || null })}
+                  placeholder={DEFAULT_GEMINI_MODEL}
+                  className="w-full bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-slate-200 outline-none focus:border-indigo-500/50 placeholder:text-slate-600"
+                />
+                <datalist id="profile-models">
+                  {KNOWN_MODELS.map(model => <option key={model} value={model} />)}
+                </datalist>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {newName !== null ? (
+        <div className="flex gap-2">
+          <input
+            autoFocus
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitNewName();
+              if (e.key === 'Escape') setNewName(null);
+            }}
+            placeholder="Profile name"
+            className="flex-1 bg-black/40 border border-indigo-500/50 rounded-lg px-2 py-1 text-xs outline-none"
+          />
+          <button
+            onClick={commitNewName}
+            className="px-3 py-1 rounded-lg bg-indigo-600/80 hover:bg-indigo-500 text-[10px] font-black uppercase text-white transition-all"
+          >
+            Save
+          </button>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          {canOverwrite && (
+            <button
+              onClick={() => run(async () => { await onSave(null); return `Saved "${activeProfile.name}".`; })}
+              className="flex-1 py-1.5 rounded-lg bg-indigo-600/80 hover:bg-indigo-500 text-[10px] font-black uppercase text-white transition-all"
+            >
+              Save
+            </button>
+          )}
+          <button
+            onClick={() => setNewName(activeProfile ? `${activeProfile.name} (copy)` : '')}
+            className="flex-1 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-[10px] font-black uppercase text-slate-300 transition-all"
+          >
+            Save As New
+          </button>
+          {canOverwrite && (
+            <button
+              onClick={() => handleDelete(activeProfile)}
+              className="px-3 py-1.5 rounded-lg bg-rose-600/10 hover:bg-rose-600/20 text-[10px] font-black uppercase text-rose-400 transition-all"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+      )}
+      <p className="text-[10px] text-slate-500 leading-relaxed">
+        Profiles keep the mode, knowledge context, instructions, model, language and audio settings.
+      </p>
+      {notice && (
+        <p className={`text-[10px] leading-relaxed ${notice.isError ? 'text-rose-300' : 'text-emerald-300'}`}>{notice.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default ProfilePanel;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { ScoreCard } from '../types';
+
+interface ScoreCardViewProps {
+  card: ScoreCard;
+  index: number;
+}
+
+const scoreTone = (ratio: number) => {
+  if (ratio >= 0.7) return 'text-emerald-400 bg-emerald-500/10 border-emerald-500/30';
+  if (ratio >= 0.4) return 'text-amber-400 bg-amber-500/10 border-amber-500/30';
+  return 'text-rose-400 bg-rose-500/10 border-rose-500/30';
+};
+
+const ScoreCardView: React.FC<ScoreCardViewProps> = ({ card, index }) => {
+  const ratio = card.maxScore > 0 ? card.score / card.maxScore : 0;
+
+  return (
+    <div className="bg-[#111827] border border-white/5 hover:border-indigo-500/30 rounded-2xl p-6 transition-all duration-300 shadow-xl">
+      <div className="flex justify-between items-start gap-4 mb-4">
+        <div className="space-y-1">
+          <span className="px-2 py-0.5 rounded text-[10px] font-black uppercase tracking-widest bg-slate-800 text-slate-400">
+            Question {index + 1}
+          </span>
+          <p className="text-slate-100 text-base font-semibold leading-relaxed">{card.question}</p>
+        </div>
+        <div className={`flex-shrink-0 px-3 py-2 rounded-xl border text-center ${scoreTone(ratio)}`}>
+          <div className="text-xl font-black leading-none">{card.score}</div>
+          <div className="text-[9px] font-bold uppercase tracking-widest opacity-70">/ {card.maxScore}</div>
+        </div>
+      </div>
+      <div className="space-y-3">
+        <div>
+          <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-1">Your Answer</h4>
+          <p className="text-sm text-slate-300 leading-relaxed">{card.answer}</p>
+        </div>
+        <div className="p-3 rounded-xl bg-indigo-500/5 border border-indigo-500/20">
+          <h4 className="text-[10px] font-black uppercase tracking-widest text-indigo-400 mb-1">Examiner Critique</h4>
+          <p className="text-sm text-indigo-100 leading-relaxed whitespace-pre-wrap">{card.critique}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScoreCardView;
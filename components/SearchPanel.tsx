@@ -0,0 +1,163 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SavedSession, SpeakerRole, SuggestionKind } from '../types';
+import { listSessions } from '../services/sessionStore';
+import { DEFAULT_SEARCH_FILTERS, SearchFilters, SearchResult, SearchTimeRange, SearchableSession, searchSessions, searchTerms } from '../utils/search';
+import { speakerLabel } from '../utils/speakers';
+import { SUGGESTION_KIND_META } from './SuggestionCard';
+import HighlightedText from './HighlightedText';
+
+interface SearchPanelProps {
+  // The session on screen, searched from memory so it includes turns not yet saved
+  currentSession: SearchableSession | null;
+  // Other sessions cannot be opened while capture is running
+  isSessionActive: boolean;
+  onJump: (result: SearchResult) => void;
+  onClose: () => void;
+}
+
+const SNIPPET_RADIUS = 90;
+
+const SPEAKERS: { value: SpeakerRole | 'any'; label: string }[] = [
+  { value: 'any', label: 'Anyone' },
+  { value: 'remote', label: 'Remote / Examiner' },
+  { value: 'local', label: 'You / Student' },
+  { value: 'assistant', label: 'AI Assistant' },
+];
+
+const TIME_RANGES: { value: SearchTimeRange; label: string }[] = [
+  { value: 'all', label: 'Any time' },
+  { value: '15m', label: 'Last 15 minutes' },
+  { value: '1h', label: 'Last hour' },
+  { value: '24h', label: 'Last 24 hours' },
+  { value: '7d', label: 'Last 7 days' },
+];
+
+// Long turns are cut down to the text around the first match
+const snippet = (text: string, terms: string[]) => {
+  const lower = text.toLowerCase();
+  const first = Math.min(...terms.map(term => lower.indexOf(term)).filter(idx => idx >= 0), Infinity);
+  if (!Number.isFinite(first) || text.length <= SNIPPET_RADIUS * 2) return text;
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(text.length, first + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+};
+
+const SearchPanel: React.FC<SearchPanelProps> = ({ currentSession, isSessionActive, onJump, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>(DEFAULT_SEARCH_FILTERS);
+  const [savedSessions, setSavedSessions] = useState<SavedSession[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    listSessions()
+      .then(setSavedSessions)
+      .catch(e => console.error("Search Load Error:", e));
+  }, []);
+
+  const results = useMemo(() => {
+    const others = savedSessions.filter(s => s.id !== currentSession?.id);
+    return searchSessions(currentSession ? [currentSession, ...others] : others, query, filters);
+  }, [savedSessions, currentSession, query, filters]);
+
+  const terms = searchTerms(query);
+  const update = (patch: Partial<SearchFilters>) => setFilters(current => ({ ...current, ...patch }));
+  const selectClass = 'bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-[11px] text-slate-200 outline-none focus:border-indigo-500/50';
+
+  return (
+    <div
+      className="absolute top-6 right-6 bottom-6 w-[28rem] z-30 flex flex-col rounded-3xl bg-[#111827] border border-white/10 shadow-2xl overflow-hidden"
+      role="search"
+      onKeyDown={(e) => { if (e.key === 'Escape') onClose(); }}
+    >
+      <div className="p-4 border-b border-white/5 space-y-3">
+        <div className="flex items-center gap-2">
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search transcripts, cards and #tags..."
+            aria-label="Search"
+            className="flex-1 bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-sm text-slate-200 outline-none focus:border-indigo-500/50 placeholder:text-slate-600"
+          />
+          <button
+            onClick={onClose}
+            className="px-3 py-2 rounded-xl bg-white/5 hover:bg-white/10 text-[10px] font-black uppercase tracking-wider text-slate-300 transition-all"
+          >
+            Close
+          </button>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <select aria-label="Speaker" value={filters.speaker} onChange={(e) => update({ speaker: e.target.value as SearchFilters['speaker'] })} className={selectClass}>
+            {SPEAKERS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+          <select aria-label="Card type" value={filters.kind} onChange={(e) => update({ kind: e.target.value as SearchFilters['kind'] })} className={selectClass}>
+            <option value="any">Any item</option>
+            {(Object.keys(SUGGESTION_KIND_META) as SuggestionKind[]).map(kind => (
+              <option key={kind} value={kind}>{SUGGESTION_KIND_META[kind].label} cards</option>
+            ))}
+          </select>
+          <select aria-label="Time range" value={filters.timeRange} onChange={(e) => update({ timeRange: e.target.value as SearchTimeRange })} className={selectClass}>
+            {TIME_RANGES.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        </div>
+        <label className="flex items-center gap-2 text-[11px] font-bold text-slate-400 cursor-pointer">
+          <input type="checkbox" checked={filters.pinnedOnly} onChange={(e) => update({ pinnedOnly: e.target.checked })} className="accent-amber-500" />
+          Pinned cards only
+        </label>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-2">
+        {terms.length === 0 && results.length === 0 && (
+          <p className="text-center text-[11px] text-slate-500 italic p-6">Type to search this session and your saved history.</p>
+        )}
+        {(terms.length > 0 || results.length > 0) && (
+          <p className="text-[10px] font-bold text-slate-500 uppercase tracking-wider px-1">
+            {results.length} result{results.length === 1 ? '' : 's'}
+          </p>
+        )}
+        {results.map(result => {
+          const isCurrent = result.session.id === currentSession?.id;
+          const canJump = isCurrent || !isSessionActive;
+          return (
+            <button
+              key={`${result.session.id}:${result.type}:${result.id}`}
+              onClick={() => onJump(result)}
+              disabled={!canJump}
+              title={canJump ? 'Jump to this result' : 'Stop the live session to open other sessions'}
+              className="w-full text-left p-3 rounded-2xl bg-black/40 border border-white/5 hover:border-indigo-500/40 disabled:hover:border-white/5 transition-all"
+            >
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <span className="text-[10px] font-black uppercase tracking-wider text-slate-400 truncate">
+                  {result.kind
+                    ? `${SUGGESTION_KIND_META[result.kind].icon} ${SUGGESTION_KIND_META[result.kind].label}${result.isPinned ? ' · 📌' : ''}`
+                    : speakerLabel(result.role, result.session.mode)}
+                </span>
+                <span className="text-[10px] text-slate-600 font-bold flex-shrink-0">
+                  {isCurrent ? 'This session' : result.session.name} · {result.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </span>
+              </div>
+              {result.title && result.kind !== 'insight' && (
+                <div className="text-xs font-black text-white mb-1"><HighlightedText text={result.title} terms={terms} /></div>
+              )}
+              <div className="text-[12px] text-slate-300 leading-relaxed whitespace-pre-wrap">
+                <HighlightedText text={snippet(result.text, terms)} terms={terms} />
+              </div>
+              {result.tags.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {result.tags.map(tag => (
+                    <span key={tag} className="px-2 py-0.5 rounded-full bg-amber-500/10 border border-amber-500/20 text-[10px] font-bold text-amber-300">
+                      <HighlightedText text={`#${tag}`} terms={terms} />
+                    </span>
+                  ))}
+                </div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SearchPanel;
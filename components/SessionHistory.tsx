@@ -0,0 +1,207 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { SavedSession } from '../types';
+import { listSessions, importSession } from '../services/sessionStore';
+import { parseSessionJson } from '../utils/transcriptExport';
+
+interface SessionHistoryProps {
+  openSessionId: string | null;
+  onOpen: (session: SavedSession) => void;
+  onRename: (id: string, name: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  // Resolves to the number of new cards added to the deck
+  onMakeFlashcards: (session: SavedSession) => Promise<number>;
+}
+
+const formatDuration = (start: Date, end: Date | null) => {
+  if (!end) return 'Unfinished';
+  const totalSeconds = Math.max(0, Math.round((end.getTime() - start.getTime()) / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+};
+
+const SessionHistory: React.FC<SessionHistoryProps> = ({ openSessionId, onOpen, onRename, onDelete, onMakeFlashcards }) => {
+  const [sessions, setSessions] = useState<SavedSession[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const [cardNotice, setCardNotice] = useState<{ sessionId: string; text: string } | null>(null);
+  const [actionError, setActionError] = useState<{ sessionId: string; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSessions(await listSessions());
+      setLoadError(null);
+    } catch (e: any) {
+      console.error("History Load Error:", e);
+      setLoadError(e.message);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const commitRename = async (id: string) => {
+    const name = draftName.trim();
+    setEditingId(null);
+    if (!name) return;
+    try {
+      await onRename(id, name);
+      setActionError(null);
+    } catch (err: any) {
+      console.error("Rename Error:", err);
+      setActionError({ sessionId: id, text: `Rename failed: ${err.message}` });
+    }
+    refresh();
+  };
+
+  const handleDelete = async (session: SavedSession) => {
+    if (!window.confirm(`Delete "${session.name}"? This cannot be undone.`)) return;
+    try {
+      await onDelete(session.id);
+      setActionError(null);
+    } catch (err: any) {
+      console.error("Delete Error:", err);
+      setActionError({ sessionId: session.id, text: `Delete failed: ${err.message}` });
+    }
+    refresh();
+  };
+
+  const handleMakeFlashcards = async (session: SavedSession) => {
+    try {
+      const added = await onMakeFlashcards(session);
+      setCardNotice({
+        sessionId: session.id,
+        text: added > 0 ? `Added ${added} card${added === 1 ? '' : 's'} to your deck.` : 'No new question and answer pairs found.',
+      });
+    } catch (err: any) {
+      console.error("Flashcard Error:", err);
+      setCardNotice({ sessionId: session.id, text: err.message });
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await importSession(parseSessionJson(await file.text()));
+      setImportError(null);
+      refresh();
+    } catch (err: any) {
+      console.error("Import Error:", err);
+      setImportError(err.message);
+    }
+  };
+
+  const importControl = (
+    <div className="space-y-2">
+      <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="w-full py-2 rounded-xl border border-dashed border-white/10 hover:border-indigo-500/40 text-[10px] font-black uppercase tracking-wider text-slate-400 transition-all"
+      >
+        Import JSON Export
+      </button>
+      {importError && <p className="text-[10px] text-rose-300 leading-relaxed">{importError}</p>}
+    </div>
+  );
+
+  if (loadError) {
+    return (
+      <div className="p-4 rounded-2xl bg-rose-500/10 border border-rose-500/30">
+        <p className="text-[10px] text-rose-300 leading-relaxed">{loadError}</p>
+      </div>
+    );
+  }
+
+  if (sessions.length === 0) {
+    return (
+      <div className="flex-1 flex flex-col gap-4">
+        {importControl}
+        <div className="flex-1 flex flex-col items-center justify-center text-center opacity-40 p-6">
+          <p className="text-sm font-medium italic">No saved sessions yet. Sessions are saved automatically while they run.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {importControl}
+      {sessions.map(session => (
+        <div
+          key={session.id}
+          className={`p-4 rounded-2xl border transition-all ${
+            session.id === openSessionId ? 'bg-indigo-500/10 border-indigo-500/40' : 'bg-black/40 border-white/5 hover:border-indigo-500/30'
+          }`}
+        >
+          {editingId === session.id ? (
+            <input
+              autoFocus
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              onBlur={() => commitRename(session.id)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename(session.id);
+                if (e.key === 'Escape') setEditingId(null);
+              }}
+              className="w-full bg-black/40 border border-indigo-500/50 rounded-lg px-2 py-1 text-sm outline-none"
+            />
+          ) : (
+            <button onClick={() => onOpen(session)} className="w-full text-left">
+              <div className="text-sm font-bold text-slate-200 truncate">{session.name}</div>
+            </button>
+          )}
+          <div className="mt-1 flex items-center gap-2 text-[10px] text-slate-500 font-bold uppercase tracking-wider">
+            <span>{session.startedAt.toLocaleDateString()}</span>
+            <span>·</span>
+            <span>{formatDuration(session.startedAt, session.endedAt)}</span>
+            <span>·</span>
+            <span>{session.messages.length} turns</span>
+            {session.errors.length > 0 && (
+              <span className="text-rose-400">· {session.errors.length} errors</span>
+            )}
+          </div>
+          <div className="mt-3 flex gap-2">
+            <button
+              onClick={() => onOpen(session)}
+              className="px-3 py-1 rounded-lg bg-indigo-600/80 hover:bg-indigo-500 text-[10px] font-black uppercase text-white transition-all"
+            >
+              Open
+            </button>
+            <button
+              onClick={() => { setEditingId(session.id); setDraftName(session.name); }}
+              className="px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-[10px] font-black uppercase text-slate-300 transition-all"
+            >
+              Rename
+            </button>
+            <button
+              onClick={() => handleMakeFlashcards(session)}
+              className="px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-[10px] font-black uppercase text-slate-300 transition-all"
+            >
+              Make Cards
+            </button>
+            <button
+              onClick={() => handleDelete(session)}
+              className="px-3 py-1 rounded-lg bg-rose-600/10 hover:bg-rose-600/20 text-[10px] font-black uppercase text-rose-400 transition-all"
+            >
+              Delete
+            </button>
+          </div>
+          {cardNotice?.sessionId === session.id && (
+            <p className="mt-2 text-[10px] text-slate-400 leading-relaxed">{cardNotice.text}</p>
+          )}
+          {actionError?.sessionId === session.id && (
+            <p className="mt-2 text-[10px] text-rose-300 leading-relaxed">{actionError.text}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SessionHistory;
@@ -1,39 +1,181 @@
 
-import React from 'react';
-import { SessionStatus } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { SessionState, SessionError, SourceAnalysers, AudioSource, VoiceActivity } from '../types';
+import { measureRms } from '../utils/speakerAttribution';
+import { SESSION_ERROR_COPY } from '../utils/sessionErrors';
 
 interface StatusIndicatorProps {
-  status: SessionStatus;
+  state: SessionState;
+  error?: SessionError | null;
+  // Only live capture has analysers, so their presence means the mic is open
+  analysers?: SourceAnalysers | null;
+  // Null when silence gating is off
+  voiceActivity?: VoiceActivity | null;
+  silenceWarningSeconds: number;
 }
 
-const StatusIndicator: React.FC<StatusIndicatorProps> = ({ status }) => {
+// A source quieter than this for the configured number of seconds is flagged
+const SILENCE_RMS = 0.005;
+// Meters show the last 60 dB of range
+const METER_FLOOR_DB = -60;
+
+const SILENCE_HINTS: Record<AudioSource, string> = {
+  local: 'Mic silent. Check the selected microphone and that it is not muted.',
+  remote: "No tab audio. Was 'Share tab audio' ticked when you picked the tab?",
+};
+
+const METER_SOURCES: { source: AudioSource; label: string; bar: string }[] = [
+  { source: 'local', label: 'Mic', bar: 'bg-indigo-400' },
+  { source: 'remote', label: 'Tab', bar: 'bg-amber-400' },
+];
+
+const PHASE_DISPLAY: Record<SessionState['phase'], { label: string; dot: string; text: string }> = {
+  idle: { label: 'Standby', dot: 'bg-slate-600', text: 'text-slate-300' },
+  'requesting-permissions': { label: 'Awaiting Access', dot: 'bg-indigo-400 animate-pulse', text: 'text-slate-300' },
+  connecting: { label: 'Connecting', dot: 'bg-indigo-400 animate-pulse', text: 'text-slate-300' },
+  live: { label: 'Guard Active', dot: 'bg-emerald-500', text: 'text-slate-300' },
+  paused: { label: 'Paused', dot: 'bg-sky-400', text: 'text-sky-300' },
+  reconnecting: { label: 'Reconnecting', dot: 'bg-amber-500 animate-pulse', text: 'text-amber-300' },
+  stopping: { label: 'Stopping', dot: 'bg-slate-500 animate-pulse', text: 'text-slate-300' },
+  error: { label: 'Stopped', dot: 'bg-rose-500', text: 'text-rose-300' },
+};
+
+const VOICE_LABELS: Record<AudioSource, string> = { local: 'You', remote: 'Remote' };
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+const toMeterLevel = (rms: number) =>
+  rms > 0 ? Math.min(1, Math.max(0, (20 * Math.log10(rms) - METER_FLOOR_DB) / -METER_FLOOR_DB)) : 0;
+
+// Bars are written straight to the DOM each frame; React state only changes when a silence warning flips
+const LevelMeters: React.FC<{
+  analysers: SourceAnalysers;
+  silenceWarningSeconds: number;
+  onSilenceChange: (silent: AudioSource[]) => void;
+}> = ({ analysers, silenceWarningSeconds, onSilenceChange }) => {
+  const barRefs = useRef<Partial<Record<AudioSource, HTMLDivElement | null>>>({});
+  // Read through a ref so moving the slider mid-session does not reset how long each source has been quiet
+  const warningMsRef = useRef(silenceWarningSeconds * 1000);
+  warningMsRef.current = silenceWarningSeconds * 1000;
+
+  useEffect(() => {
+    const scratch = new Float32Array(analysers.local.fftSize);
+    const startedAt = performance.now();
+    const lastHeard: Record<AudioSource, number> = { local: startedAt, remote: startedAt };
+    let reported = '';
+    let frame = 0;
+
+    const tick = (now: number) => {
+      const silent: AudioSource[] = [];
+      METER_SOURCES.forEach(({ source }) => {
+        const analyser = analysers[source];
+        if (!analyser) return;
+        const rms = measureRms(analyser, scratch);
+        const bar = barRefs.current[source];
+        if (bar) bar.style.width = `${toMeterLevel(rms) * 100}%`;
+        if (rms > SILENCE_RMS) lastHeard[source] = now;
+        if (now - lastHeard[source] > warningMsRef.current) silent.push(source);
+      });
+      const key = silent.join(',');
+      if (key !== reported) {
+        reported = key;
+        onSilenceChange(silent);
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => {
+      cancelAnimationFrame(frame);
+      onSilenceChange([]);
+    };
+  }, [analysers, onSilenceChange]);
+
+  return (
+    <div className="flex flex-col gap-1">
+      {METER_SOURCES.filter(({ source }) => analysers[source]).map(({ source, label, bar }) => (
+        <div key={source} className="flex items-center gap-2">
+          <span className="w-6 text-[9px] font-black uppercase tracking-wider text-slate-500">{label}</span>
+          <div className="w-16 h-1.5 rounded-full bg-slate-700/60 overflow-hidden" role="meter" aria-label={`${label} input level`}>
+            <div ref={el => { barRefs.current[source] = el; }} className={`h-full ${bar} transition-[width] duration-75`} style={{ width: '0%' }}></div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const StatusIndicator: React.FC<StatusIndicatorProps> = ({ state, error = null, analysers = null, voiceActivity = null, silenceWarningSeconds }) => {
+  const [silentSources, setSilentSources] = useState<AudioSource[]>([]);
+  const display = PHASE_DISPLAY[state.phase];
+  const isMicOpen = analysers !== null && (state.phase === 'live' || state.phase === 'paused' || state.phase === 'reconnecting');
+  const isMicSending = isMicOpen && (state.phase === 'live' || (state.phase === 'reconnecting' && !state.wasPaused));
+
   return (
     <div className="flex items-center gap-3">
-      {status.error && (
-        <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-red-900/30 border border-red-500/30 text-red-400 text-xs font-medium">
+      {silentSources.map(source => (
+        <div key={source} className="flex items-center gap-2 px-3 py-1 rounded-full bg-amber-900/30 border border-amber-500/30 text-amber-300 text-xs font-medium" role="alert">
+          {SILENCE_HINTS[source]}
+        </div>
+      ))}
+
+      {error && (
+        <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-red-900/30 border border-red-500/30 text-red-400 text-xs font-medium" title={error.detail ?? undefined}>
           <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
             <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
           </svg>
-          {status.error}
+          {SESSION_ERROR_COPY[error.code].title}
         </div>
       )}
       
       <div className="flex items-center gap-4 bg-slate-900/50 rounded-full px-4 py-1.5 border border-slate-700/50">
         <div className="flex items-center gap-2">
-          <div className={`w-2 h-2 rounded-full ${status.isActive ? 'bg-emerald-500' : 'bg-slate-600'}`}></div>
-          <span className="text-xs font-semibold text-slate-300">
-            {status.isActive ? 'Guard Active' : 'Standby'}
+          <div className={`w-2 h-2 rounded-full ${display.dot}`}></div>
+          <span className={`text-xs font-semibold ${display.text}`}>
+            {state.phase === 'reconnecting' ? `${display.label} (attempt ${state.attempt})` : display.label}
           </span>
         </div>
         
         <div className="w-px h-3 bg-slate-700"></div>
         
         <div className="flex items-center gap-2">
-          <div className={`w-2 h-2 rounded-full ${status.isMicActive ? 'bg-indigo-500 pulse-animation' : 'bg-slate-600'}`}></div>
+          <div className={`w-2 h-2 rounded-full ${isMicSending ? 'bg-indigo-500 pulse-animation' : isMicOpen ? 'bg-sky-400' : 'bg-slate-600'}`}></div>
           <span className="text-xs font-semibold text-slate-300">
-            {status.isMicActive ? 'Mic Hot' : 'Mic Closed'}
+            {isMicSending ? 'Mic Hot' : isMicOpen ? 'Mic Muted' : 'Mic Closed'}
           </span>
         </div>
+
+        {analysers && (
+          <>
+            <div className="w-px h-3 bg-slate-700"></div>
+            <LevelMeters analysers={analysers} silenceWarningSeconds={silenceWarningSeconds} onSilenceChange={setSilentSources} />
+          </>
+        )}
+
+        {voiceActivity && (
+          <>
+            <div className="w-px h-3 bg-slate-700"></div>
+            <div className="flex flex-col gap-0.5">
+              <div className="flex items-center gap-2">
+                {(Object.keys(voiceActivity.speaking) as AudioSource[]).map(source => (
+                  <span
+                    key={source}
+                    className={`text-[9px] font-black uppercase tracking-wider ${voiceActivity.speaking[source] ? 'text-emerald-400' : 'text-slate-600'}`}
+                    aria-label={`${VOICE_LABELS[source]}: ${voiceActivity.speaking[source] ? 'speaking' : 'silent'}`}
+                  >
+                    {voiceActivity.speaking[source] ? '●' : '○'} {VOICE_LABELS[source]}
+                  </span>
+                ))}
+              </div>
+              <span
+                className="text-[9px] font-bold text-slate-500 tabular-nums"
+                title={`Silence is not streamed. ${formatBytes(voiceActivity.bytesSent)} sent so far.`}
+              >
+                {formatBytes(voiceActivity.bytesSaved)} saved
+              </span>
+            </div>
+          </>
+        )}
       </div>
     </div>
   );
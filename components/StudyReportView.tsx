@@ -0,0 +1,138 @@
+import React from 'react';
+import { StudyReport, SessionMode } from '../types';
+import { speakerLabel } from '../utils/speakers';
+
+interface StudyReportViewProps {
+  report: StudyReport | null;
+  mode: SessionMode;
+  isGenerating: boolean;
+  error: string | null;
+  onGenerate: () => void;
+  onClose: () => void;
+}
+
+const SectionHeading: React.FC<{ title: string; count: number }> = ({ title, count }) => (
+  <div className="flex items-center gap-2 mb-3">
+    <div className="w-1 h-4 bg-indigo-500 rounded-full"></div>
+    <h3 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">{title}</h3>
+    <span className="text-[10px] font-bold text-slate-600">{count}</span>
+  </div>
+);
+
+const EmptyNote: React.FC<{ text: string }> = ({ text }) => (
+  <p className="text-sm text-slate-500 italic">{text}</p>
+);
+
+const StudyReportView: React.FC<StudyReportViewProps> = ({ report, mode, isGenerating, error, onGenerate, onClose }) => (
+  <div className="flex-1 flex flex-col bg-black/40 rounded-3xl border border-white/5 overflow-hidden shadow-2xl">
+    <div className="px-6 py-4 border-b border-white/5 flex justify-between items-center bg-white/[0.02]">
+      <div className="flex items-center gap-2">
+        <div className="w-2 h-2 rounded-full bg-emerald-500 shadow-[0_0_8px_rgba(16,185,129,0.6)]"></div>
+        <h3 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">Study Report</h3>
+        {report && (
+          <span className="text-[10px] text-slate-600 font-bold">
+            {report.generatedAt.toLocaleString()}
+          </span>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onGenerate}
+          disabled={isGenerating}
+          className="px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10 disabled:opacity-50 text-[10px] font-black uppercase tracking-wider text-slate-300 transition-all"
+        >
+          {report ? 'Regenerate' : 'Generate'}
+        </button>
+        <button
+          onClick={onClose}
+          className="px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-[10px] font-black uppercase tracking-wider text-slate-300 transition-all"
+        >
+          Back to Transcript
+        </button>
+      </div>
+    </div>
+
+    <div className="flex-1 overflow-y-auto p-6 space-y-8 custom-scrollbar">
+      {isGenerating && (
+        <div className="flex items-center gap-2 text-indigo-400 text-[10px] font-black uppercase tracking-widest">
+          <div className="w-2 h-2 rounded-full bg-indigo-400 animate-ping"></div>
+          Reviewing the session...
+        </div>
+      )}
+
+      {error && !isGenerating && (
+        <div className="p-4 rounded-2xl bg-rose-500/10 border border-rose-500/30">
+          <p className="text-[11px] text-rose-300 leading-relaxed">{error}</p>
+        </div>
+      )}
+
+      {!report && !isGenerating && !error && (
+        <EmptyNote text="No report yet for this session." />
+      )}
+
+      {report && (
+        <>
+          <section>
+            <SectionHeading title="Topics to Revisit" count={report.unsureTopics.length} />
+            {report.unsureTopics.length === 0 ? (
+              <EmptyNote text="No uncertain topics were detected." />
+            ) : (
+              <div className="space-y-2">
+                {report.unsureTopics.map((t, idx) => (
+                  <div key={idx} className="p-4 rounded-2xl bg-amber-500/5 border border-amber-500/20">
+                    <div className="text-sm font-black text-amber-200">{t.topic}</div>
+                    <p className="text-[11px] text-slate-400 leading-relaxed mt-1">{t.evidence}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <section>
+            <SectionHeading title="Follow-up Reading" count={report.followUpReading.length} />
+            {report.followUpReading.length === 0 ? (
+              <EmptyNote text="Upload course notes before the session to get reading from your own material." />
+            ) : (
+              <div className="space-y-2">
+                {report.followUpReading.map((r, idx) => (
+                  <div key={idx} className="p-4 rounded-2xl bg-[#111827] border border-white/5">
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="text-sm font-black text-white">{r.topic}</div>
+                      {r.documentName && (
+                        <span className="text-[10px] font-bold text-slate-500 truncate" title={r.documentName}>📄 {r.documentName}</span>
+                      )}
+                    </div>
+                    <p className="text-[11px] text-slate-300 leading-relaxed mt-2 whitespace-pre-wrap">{r.excerpt}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <section>
+            <SectionHeading title="Questions" count={report.questions.length} />
+            {report.questions.length === 0 ? (
+              <EmptyNote text="No questions were found in the transcript." />
+            ) : (
+              <ol className="space-y-3">
+                {report.questions.map((q, idx) => (
+                  <li key={idx} className="p-4 rounded-2xl bg-[#111827] border border-white/5">
+                    <div className="flex items-start justify-between gap-4">
+                      <p className="text-sm font-semibold text-slate-100 leading-relaxed">{idx + 1}. {q.question}</p>
+                      <span className="text-[10px] font-bold uppercase tracking-widest text-slate-600 flex-shrink-0">
+                        {speakerLabel(q.askedBy, mode)}
+                      </span>
+                    </div>
+                    <p className="text-[11px] text-slate-400 leading-relaxed mt-2">{q.answerSummary}</p>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  </div>
+);
+
+export default StudyReportView;
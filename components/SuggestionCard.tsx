@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Suggestion, SuggestionKind } from '../types';
+import { normalizeTag } from '../utils/suggestions';
+import MarkdownContent from './MarkdownContent';
+
+interface SuggestionCardProps {
+  suggestion: Suggestion;
+  isLatest: boolean;
+  onTogglePin: () => void;
+  onTagsChange: (tags: string[]) => void;
+}
+
+export const SUGGESTION_KIND_META: Record<SuggestionKind, { label: string; icon: string; badge: string; accent: string }> = {
+  'key-concept': { label: 'Key Concept', icon: '💡', badge: 'bg-indigo-500 text-white', accent: 'border-l-indigo-500' },
+  'definition': { label: 'Definition', icon: '📖', badge: 'bg-sky-500 text-white', accent: 'border-l-sky-500' },
+  'clarification': { label: 'Clarification', icon: '⚠️', badge: 'bg-amber-500 text-black', accent: 'border-l-amber-500' },
+  'follow-up': { label: 'Ask Back', icon: '❓', badge: 'bg-emerald-500 text-black', accent: 'border-l-emerald-500' },
+  'reference': { label: 'Reference', icon: '🔗', badge: 'bg-purple-500 text-white', accent: 'border-l-purple-500' },
+  'insight': { label: 'AI Insight', icon: '⚡', badge: 'bg-slate-700 text-slate-200', accent: 'border-l-slate-600' },
+};
+
+const SuggestionCard: React.FC<SuggestionCardProps> = ({ suggestion, isLatest, onTogglePin, onTagsChange }) => {
+  const meta = SUGGESTION_KIND_META[suggestion.kind];
+  const [tagDraft, setTagDraft] = useState('');
+
+  const addTag = () => {
+    const tag = normalizeTag(tagDraft);
+    setTagDraft('');
+    if (tag && !suggestion.tags.includes(tag)) onTagsChange([...suggestion.tags, tag]);
+  };
+
+  return (
+    <div
+      className={`relative group bg-[#111827] border border-white/5 border-l-4 ${meta.accent} hover:border-indigo-500/30 rounded-2xl p-6 transition-all duration-300 shadow-xl ${isLatest ? 'ring-2 ring-indigo-500/40 bg-slate-800/40 shadow-indigo-500/10' : ''}`}
+    >
+      <div className="flex justify-between items-start mb-3 gap-4">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className={`px-2 py-0.5 rounded text-[10px] font-black uppercase tracking-widest flex-shrink-0 ${meta.badge}`}>
+            {meta.icon} {meta.label}
+          </span>
+          {suggestion.confidence !== null && (
+            <div className="flex items-center gap-1.5" title={`Model confidence ${Math.round(suggestion.confidence * 100)}%`}>
+              <div className="w-12 h-1 rounded-full bg-white/10 overflow-hidden">
+                <div className="h-full bg-indigo-400" style={{ width: `${suggestion.confidence * 100}%` }}></div>
+              </div>
+              <span className="text-[10px] text-slate-500 font-bold">{Math.round(suggestion.confidence * 100)}%</span>
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <span className="text-[10px] text-slate-600 font-bold">{suggestion.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}</span>
+          <button
+            onClick={onTogglePin}
+            aria-pressed={suggestion.isPinned}
+            title={suggestion.isPinned ? 'Unpin card' : 'Pin card so it is never dropped'}
+            className={`px-1.5 py-0.5 rounded text-xs transition-all ${suggestion.isPinned ? 'bg-amber-500/20 opacity-100' : 'opacity-30 group-hover:opacity-80 hover:bg-white/10'}`}
+          >
+            📌
+          </button>
+        </div>
+      </div>
+      {suggestion.kind !== 'insight' && (
+        <h4 className="text-sm font-black text-white mb-2">{suggestion.title}</h4>
+      )}
+      <MarkdownContent content={suggestion.content} className="text-slate-100 text-base font-semibold leading-relaxed selection:bg-indigo-500/30" />
+      {suggestion.relatedTopics.length > 0 && (
+        <div className="mt-4 flex flex-wrap gap-1.5">
+          {suggestion.relatedTopics.map(topic => (
+            <span key={topic} className="px-2 py-0.5 rounded-full bg-white/5 border border-white/10 text-[10px] font-bold text-slate-400">
+              #{topic}
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="mt-3 flex flex-wrap items-center gap-1.5">
+        {suggestion.tags.map(tag => (
+          <span key={tag} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-500/10 border border-amber-500/20 text-[10px] font-bold text-amber-300">
+            #{tag}
+            <button
+              onClick={() => onTagsChange(suggestion.tags.filter(t => t !== tag))}
+              aria-label={`Remove tag ${tag}`}
+              className="text-amber-300/60 hover:text-amber-200"
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          value={tagDraft}
+          onChange={(e) => setTagDraft(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') addTag(); }}
+          onBlur={addTag}
+          placeholder="+ tag"
+          aria-label="Add tag"
+          className="w-20 bg-transparent border-b border-transparent focus:border-white/20 text-[10px] font-bold text-slate-400 outline-none placeholder:text-slate-600 opacity-50 group-hover:opacity-100 focus:opacity-100 transition-all"
+        />
+      </div>
+      {suggestion.sourceDocument && (
+        <div className="mt-3 text-[10px] font-bold text-slate-500 truncate" title={suggestion.sourceDocument}>
+          📄 From your notes: {suggestion.sourceDocument}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SuggestionCard;
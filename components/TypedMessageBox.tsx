@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+
+interface TypedMessageBoxProps {
+  // Returns false when the message could not be sent, e.g. while reconnecting
+  onSend: (text: string) => boolean;
+}
+
+const QUICK_PROMPTS = ['Explain that last term again', 'Summarise the last five minutes', 'What should I say next?'];
+
+const TypedMessageBox: React.FC<TypedMessageBoxProps> = ({ onSend }) => {
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const send = (value: string) => {
+    if (!value.trim()) return;
+    if (onSend(value)) {
+      setText('');
+      setError(null);
+    } else {
+      setError('Not connected right now. Your message was kept; try again in a moment.');
+    }
+  };
+
+  return (
+    <div className="px-2 space-y-2">
+      <div className="flex gap-2">
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter sends; Shift+Enter adds a line
+            if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+              e.preventDefault();
+              send(text);
+            }
+          }}
+          rows={1}
+          placeholder="Type a question or note for the assistant..."
+          aria-label="Type a question or note for the assistant"
+          className="flex-1 min-h-[2.5rem] max-h-32 bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-sm text-slate-200 outline-none resize-y focus:border-indigo-500/50 placeholder:text-slate-600"
+        />
+        <button
+          onClick={() => send(text)}
+          disabled={!text.trim()}
+          className="px-4 rounded-xl bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 text-[10px] font-black uppercase tracking-wider text-white transition-all"
+        >
+          Send
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-1.5">
+        {QUICK_PROMPTS.map(prompt => (
+          <button
+            key={prompt}
+            onClick={() => send(prompt)}
+            className="px-2.5 py-1 rounded-full bg-white/5 hover:bg-white/10 text-[10px] font-bold text-slate-400 hover:text-slate-200 transition-all"
+          >
+            {prompt}
+          </button>
+        ))}
+      </div>
+      {error && <p className="text-[10px] text-amber-300 leading-relaxed">{error}</p>}
+    </div>
+  );
+};
+
+export default TypedMessageBox;
@@ -0,0 +1,77 @@
+import { useCallback, useRef, useState } from 'react';
+import { SessionError, SessionState } from '../types';
+
+export type SessionEvent =
+  | { type: 'start' }
+  | { type: 'permissions-granted' }
+  | { type: 'opened' }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'connection-lost'; attempt: number }
+  // A session that never got going fails straight from idle, e.g. on an insecure page
+  | { type: 'fail'; error: SessionError }
+  | { type: 'stop'; error?: SessionError }
+  | { type: 'stopped' };
+
+const IDLE: SessionState = { phase: 'idle' };
+
+// Events that do not apply to the current phase leave it unchanged, which is how callers detect them
+export const transition = (state: SessionState, event: SessionEvent): SessionState => {
+  switch (event.type) {
+    case 'start':
+      return state.phase === 'idle' || state.phase === 'error' ? { phase: 'requesting-permissions' } : state;
+    case 'permissions-granted':
+      return state.phase === 'requesting-permissions' ? { phase: 'connecting' } : state;
+    case 'opened':
+      if (state.phase === 'connecting') return { phase: 'live' };
+      if (state.phase === 'reconnecting') return { phase: state.wasPaused ? 'paused' : 'live' };
+      return state;
+    case 'pause':
+      return state.phase === 'live' ? { phase: 'paused' } : state;
+    case 'resume':
+      return state.phase === 'paused' ? { phase: 'live' } : state;
+    case 'connection-lost':
+      if (state.phase === 'live' || state.phase === 'paused') return { phase: 'reconnecting', attempt: event.attempt, wasPaused: state.phase === 'paused' };
+      if (state.phase === 'reconnecting') return { ...state, attempt: event.attempt };
+      return state;
+    case 'fail':
+      return state.phase === 'idle' ? { phase: 'error', error: event.error } : state;
+    case 'stop':
+      return state.phase === 'idle' || state.phase === 'error' || state.phase === 'stopping'
+        ? state
+        : { phase: 'stopping', error: event.error ?? null };
+    case 'stopped':
+      if (state.phase !== 'stopping') return state;
+      return state.error ? { phase: 'error', error: state.error } : IDLE;
+  }
+};
+
+// Connected, or trying to get back to a connection the user has not ended
+export const isSessionRunning = (state: SessionState) =>
+  state.phase === 'live' || state.phase === 'paused' || state.phase === 'reconnecting';
+
+export const isSessionStarting = (state: SessionState) =>
+  state.phase === 'requesting-permissions' || state.phase === 'connecting';
+
+// Nothing is sent to the model while paused, including across a reconnect
+export const isCapturePaused = (state: SessionState) =>
+  state.phase === 'paused' || (state.phase === 'reconnecting' && state.wasPaused);
+
+export const sessionErrorOf = (state: SessionState) => state.phase === 'error' ? state.error : null;
+
+// `stateRef` is current as soon as send returns, so callbacks from audio and socket events can read it
+export const useSessionMachine = () => {
+  const [state, setState] = useState<SessionState>(IDLE);
+  const stateRef = useRef<SessionState>(IDLE);
+
+  // Returns false when the event did not apply, e.g. a second stop while the first is tearing down
+  const send = useCallback((event: SessionEvent) => {
+    const next = transition(stateRef.current, event);
+    if (next === stateRef.current) return false;
+    stateRef.current = next;
+    setState(next);
+    return true;
+  }, []);
+
+  return { state, stateRef, send };
+};
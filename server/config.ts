@@ -0,0 +1,54 @@
+export interface ServerConfig {
+  port: number;
+  // Null only in dummy mode
+  apiKey: string | null;
+  // Issues placeholder tokens and never calls Gemini, for working on the client without a key
+  useDummyTokens: boolean;
+  liveModels: string[];
+  // Used for reports, translations and outlines
+  generateModel: string;
+  // Limits are per client id; all ids seen from one address share clientsPerAddress times that
+  rateLimit: { windowMs: number; liveTokens: number; generateRequests: number; clientsPerAddress: number };
+  // Peers whose X-Forwarded-For is believed, e.g. the Vite dev proxy on the same machine
+  trustedProxies: string[];
+  // Origins allowed to call the API from another host; same-origin requests (e.g. through the Vite proxy) need none
+  allowedOrigins: string[];
+  // Null logs usage to the console only
+  usageLogPath: string | null;
+}
+
+const DEFAULT_LIVE_MODELS = ['gemini-2.5-flash-native-audio-preview-12-2025', 'gemini-live-2.5-flash-preview', 'gemini-2.0-flash-live-001'];
+const DEFAULT_GENERATE_MODEL = 'gemini-2.5-flash';
+const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+
+const list = (value: string | undefined, fallback: string[]) =>
+  value ? value.split(',').map(item => item.trim()).filter(Boolean) : fallback;
+
+const positiveInt = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): ServerConfig => {
+  const useDummyTokens = env.TOKEN_PROXY_MODE === 'dummy';
+  const apiKey = env.GEMINI_API_KEY || null;
+  if (!apiKey && !useDummyTokens) {
+    throw new Error('GEMINI_API_KEY is not set. Set it, or set TOKEN_PROXY_MODE=dummy to issue placeholder tokens for local development.');
+  }
+  return {
+    port: positiveInt(env.TOKEN_PROXY_PORT, 8787),
+    apiKey: useDummyTokens ? null : apiKey,
+    useDummyTokens,
+    liveModels: list(env.LIVE_MODELS, DEFAULT_LIVE_MODELS),
+    generateModel: env.GENERATE_MODEL || DEFAULT_GENERATE_MODEL,
+    rateLimit: {
+      windowMs: positiveInt(env.RATE_LIMIT_WINDOW_SECONDS, 60 * 60) * 1000,
+      liveTokens: positiveInt(env.RATE_LIMIT_LIVE_TOKENS, 30),
+      generateRequests: positiveInt(env.RATE_LIMIT_GENERATE_REQUESTS, 300),
+      clientsPerAddress: positiveInt(env.RATE_LIMIT_CLIENTS_PER_ADDRESS, 4),
+    },
+    trustedProxies: list(env.TRUSTED_PROXIES, LOOPBACK_ADDRESSES),
+    allowedOrigins: list(env.ALLOWED_ORIGINS, []),
+    usageLogPath: env.USAGE_LOG_PATH || null,
+  };
+};
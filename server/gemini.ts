@@ -0,0 +1,74 @@
+import { randomUUID } from 'node:crypto';
+import { GoogleGenAI, GenerateContentConfig } from '@google/genai';
+import { ServerConfig } from './config';
+
+// Long enough for a full viva on one connection. Tokens are single use, so every reconnect fetches a new one.
+const TOKEN_LIFETIME_MS = 2 * 60 * 60 * 1000;
+// The client connects straight after fetching, so an unused token is useless after a minute
+const NEW_SESSION_WINDOW_MS = 60 * 1000;
+
+export interface LiveToken {
+  token: string;
+  expiresAt: string;
+  isDummy: boolean;
+}
+
+// Built from a known task in tasks.ts; only structured-output settings are passed on
+export interface GenerateRequest {
+  model: string;
+  contents: string;
+  config?: Pick<GenerateContentConfig, 'responseMimeType' | 'responseSchema' | 'temperature'>;
+}
+
+export interface GenerateResult {
+  text: string;
+  totalTokens?: number;
+}
+
+export interface GeminiGateway {
+  issueLiveToken: (model: string) => Promise<LiveToken>;
+  generate: (request: GenerateRequest) => Promise<GenerateResult>;
+}
+
+const createDummyGateway = (): GeminiGateway => ({
+  async issueLiveToken() {
+    return { token: `dummy-${randomUUID()}`, expiresAt: new Date(Date.now() + TOKEN_LIFETIME_MS).toISOString(), isDummy: true };
+  },
+  async generate() {
+    throw new Error('Text generation is not available while the token server issues dummy tokens.');
+  },
+});
+
+export const createGeminiGateway = (config: ServerConfig): GeminiGateway => {
+  if (config.useDummyTokens || !config.apiKey) return createDummyGateway();
+  // Ephemeral tokens are only offered on the v1alpha API
+  const ai = new GoogleGenAI({ apiKey: config.apiKey, httpOptions: { apiVersion: 'v1alpha' } });
+
+  return {
+    async issueLiveToken(model) {
+      const now = Date.now();
+      const expiresAt = new Date(now + TOKEN_LIFETIME_MS).toISOString();
+      const token = await ai.authTokens.create({
+        config: {
+          uses: 1,
+          expireTime: expiresAt,
+          newSessionExpireTime: new Date(now + NEW_SESSION_WINDOW_MS).toISOString(),
+          // Locks the token to one model so it cannot be spent on a more expensive one
+          liveConnectConstraints: { model },
+        },
+      });
+      if (!token.name) {
+        throw new Error('Gemini did not return a token.');
+      }
+      return { token: token.name, expiresAt, isDummy: false };
+    },
+    async generate({ model, contents, config }) {
+      const response = await ai.models.generateContent({
+        model,
+        contents,
+        config: { responseMimeType: config?.responseMimeType, responseSchema: config?.responseSchema, temperature: config?.temperature },
+      });
+      return { text: response.text ?? '', totalTokens: response.usageMetadata?.totalTokenCount };
+    },
+  };
+};
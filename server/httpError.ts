@@ -0,0 +1,6 @@
+// Errors with a status are reported to the client as they are; anything else is treated as a Gemini failure
+export class HttpError extends Error {
+  constructor(public status: number, message: string, public headers: Record<string, string> = {}) {
+    super(message);
+  }
+}
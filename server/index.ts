@@ -0,0 +1,165 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { loadConfig } from './config';
+import { createRateLimiter, RateLimitResult } from './rateLimiter';
+import { createUsageLog, UsageEntry } from './usageLog';
+import { createGeminiGateway } from './gemini';
+import { HttpError } from './httpError';
+import { parseGenerateTask, buildTaskRequest } from './tasks';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+// Sent by the browser client; see services/backend.ts
+const CLIENT_HEADER = 'x-viva-client';
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No env file; rely on the real environment
+}
+
+const config = loadConfig();
+const gateway = createGeminiGateway(config);
+const usageLog = createUsageLog(config.usageLogPath);
+
+interface Caller {
+  address: string;
+  // The address plus the self-reported client id
+  client: string;
+}
+
+// Every client id gets its own budget, and all ids from one address share a larger one,
+// so a caller who changes the id on each request is still held to the address budget
+const createLimits = (perClient: number) => ({
+  client: createRateLimiter(perClient, config.rateLimit.windowMs),
+  address: createRateLimiter(perClient * config.rateLimit.clientsPerAddress, config.rateLimit.windowMs),
+});
+
+const limiters = {
+  'live-token': createLimits(config.rateLimit.liveTokens),
+  generate: createLimits(config.rateLimit.generateRequests),
+};
+
+// Behind a trusted proxy the caller is the last X-Forwarded-For entry, the one the proxy itself added;
+// anything before it was sent by the caller and could be made up
+const callerAddress = (req: IncomingMessage) => {
+  const peer = req.socket.remoteAddress ?? 'unknown';
+  const forwarded = req.headers['x-forwarded-for'];
+  if (!config.trustedProxies.includes(peer) || typeof forwarded !== 'string') return peer;
+  return forwarded.split(',').map(entry => entry.trim()).filter(Boolean).pop() ?? peer;
+};
+
+// The client id is self-reported, so it only splits the address budget between users who share an address
+// (e.g. behind NAT); it is not authentication.
+const identifyCaller = (req: IncomingMessage): Caller => {
+  const header = req.headers[CLIENT_HEADER];
+  const id = typeof header === 'string' && /^[\w-]{8,64}$/.test(header) ? header : 'anonymous';
+  const address = callerAddress(req);
+  return { address, client: `${address}/${id}` };
+};
+
+const readJson = async (req: IncomingMessage): Promise<any> => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body is too large.');
+    chunks.push(chunk);
+  }
+  if (chunks.length === 0) return {};
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON.');
+  }
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const applyCors = (req: IncomingMessage, res: ServerResponse) => {
+  const origin = req.headers.origin;
+  if (origin && config.allowedOrigins.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Headers', `Content-Type, ${CLIENT_HEADER}`);
+    res.setHeader('Access-Control-Allow-Methods', 'POST, GET, OPTIONS');
+    res.setHeader('Vary', 'Origin');
+  }
+};
+
+const rejectIfLimited = ({ allowed, retryAfterMs }: RateLimitResult) => {
+  if (allowed) return;
+  const seconds = Math.ceil(retryAfterMs / 1000);
+  throw new HttpError(429, `Rate limit reached. Try again in ${seconds} seconds.`, { 'Retry-After': String(seconds) });
+};
+
+// Both budgets are checked before either is counted, so a rejected request costs the caller nothing
+const enforceLimit = (endpoint: keyof typeof limiters, caller: Caller) => {
+  const { client, address } = limiters[endpoint];
+  rejectIfLimited(client.check(caller.client));
+  rejectIfLimited(address.check(caller.address));
+  client.take(caller.client);
+  address.take(caller.address);
+};
+
+const handleLiveToken = async (req: IncomingMessage, caller: Caller) => {
+  const body = await readJson(req);
+  const model = typeof body.model === 'string' && body.model ? body.model : config.liveModels[0];
+  if (!config.liveModels.includes(model)) throw new HttpError(400, `The model "${model}" is not allowed for live sessions.`);
+  enforceLimit('live-token', caller);
+  return { model, result: await gateway.issueLiveToken(model) };
+};
+
+// Clients name a task and send its inputs; the prompt is written here so the key cannot be used for anything else
+const handleGenerate = async (req: IncomingMessage, caller: Caller) => {
+  const task = parseGenerateTask(await readJson(req));
+  enforceLimit('generate', caller);
+  return { model: config.generateModel, result: await gateway.generate(buildTaskRequest(task, config.generateModel)) };
+};
+
+const server = createServer(async (req, res) => {
+  applyCors(req, res);
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+  if (req.method === 'GET' && path === '/api/health') {
+    sendJson(res, 200, { ok: true, dummyTokens: config.useDummyTokens });
+    return;
+  }
+
+  const endpoint: UsageEntry['endpoint'] | null =
+    path === '/api/live-token' ? 'live-token' : path === '/api/generate' ? 'generate' : null;
+  if (!endpoint || req.method !== 'POST') {
+    sendJson(res, 404, { error: 'Not found.' });
+    return;
+  }
+
+  const caller = identifyCaller(req);
+  const { client } = caller;
+  const startedAt = Date.now();
+  let model: string | null = null;
+  try {
+    const handled = endpoint === 'live-token' ? await handleLiveToken(req, caller) : await handleGenerate(req, caller);
+    model = handled.model;
+    sendJson(res, 200, handled.result);
+    usageLog.record({
+      client,
+      endpoint,
+      model,
+      status: 200,
+      durationMs: Date.now() - startedAt,
+      ...('totalTokens' in handled.result && { totalTokens: handled.result.totalTokens }),
+    });
+  } catch (e: any) {
+    const status = e instanceof HttpError ? e.status : 502;
+    if (!(e instanceof HttpError)) console.error("Gemini Error:", e);
+    sendJson(res, status, { error: e.message || 'The request failed.' }, e instanceof HttpError ? e.headers : {});
+    usageLog.record({ client, endpoint, model, status, durationMs: Date.now() - startedAt, error: e.message });
+  }
+});
+
+server.listen(config.port, () => {
+  console.log(`Token server listening on http://localhost:${config.port}${config.useDummyTokens ? ' (dummy tokens)' : ''}`);
+});
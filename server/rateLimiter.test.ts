@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from './rateLimiter';
+
+const clock = (start = 0) => {
+  let time = start;
+  return { now: () => time, advance: (ms: number) => { time += ms; } };
+};
+
+describe('createRateLimiter', () => {
+  it('allows the limit within a window, then reports when the window ends', () => {
+    const { now, advance } = clock();
+    const limiter = createRateLimiter(2, 60000, now);
+    expect(limiter.take('a')).toEqual({ allowed: true, remaining: 1, retryAfterMs: 0 });
+    advance(1000);
+    expect(limiter.take('a')).toEqual({ allowed: true, remaining: 0, retryAfterMs: 0 });
+    advance(1000);
+    expect(limiter.take('a')).toEqual({ allowed: false, remaining: 0, retryAfterMs: 58000 });
+  });
+
+  it('starts a fresh window once the old one has passed', () => {
+    const { now, advance } = clock();
+    const limiter = createRateLimiter(1, 60000, now);
+    limiter.take('a');
+    advance(60000);
+    expect(limiter.take('a').allowed).toBe(true);
+  });
+
+  it('counts each key separately', () => {
+    const limiter = createRateLimiter(1, 60000, clock().now);
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('b').allowed).toBe(true);
+    expect(limiter.take('a').allowed).toBe(false);
+  });
+
+  it('checks without counting the request', () => {
+    const limiter = createRateLimiter(1, 60000, clock().now);
+    expect(limiter.check('a')).toEqual({ allowed: true, remaining: 1, retryAfterMs: 0 });
+    expect(limiter.check('a').allowed).toBe(true);
+    limiter.take('a');
+    expect(limiter.check('a').allowed).toBe(false);
+  });
+});
@@ -0,0 +1,45 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // Zero when allowed
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  // Reports whether a request would be allowed without counting it
+  check: (key: string) => RateLimitResult;
+  take: (key: string) => RateLimitResult;
+}
+
+// Fixed window per key. Expired windows are dropped as keys are touched, so memory stays bounded by active users.
+export const createRateLimiter = (limit: number, windowMs: number, now: () => number = Date.now): RateLimiter => {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  const prune = (at: number) => {
+    windows.forEach((window, key) => {
+      if (at - window.startedAt >= windowMs) windows.delete(key);
+    });
+  };
+
+  const windowFor = (key: string, at: number) => {
+    prune(at);
+    const window = windows.get(key) ?? { startedAt: at, count: 0 };
+    windows.set(key, window);
+    return window;
+  };
+
+  const evaluate = (key: string, record: boolean): RateLimitResult => {
+    const at = now();
+    const window = windowFor(key, at);
+    if (window.count >= limit) {
+      return { allowed: false, remaining: 0, retryAfterMs: window.startedAt + windowMs - at };
+    }
+    if (record) window.count++;
+    return { allowed: true, remaining: limit - window.count, retryAfterMs: 0 };
+  };
+
+  return {
+    check: key => evaluate(key, false),
+    take: key => evaluate(key, true),
+  };
+};
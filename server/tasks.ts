@@ -0,0 +1,95 @@
+import { GenerateTask, PromptScore, PromptTurn, SessionMode, SpeakerRole } from '../types';
+import { buildOutlinePrompt, buildReportPrompt, buildTranslationPrompt, outlineSectionSchema, studyReportSchema } from '../utils/instructions';
+import { LANGUAGES } from '../utils/languages';
+import { GenerateRequest } from './gemini';
+import { HttpError } from './httpError';
+
+// A pasted resume or reading list can be long; a single turn or title cannot
+const MAX_KNOWLEDGE_CHARS = 50000;
+const MAX_TEXT_CHARS = 20000;
+const MAX_TITLE_CHARS = 200;
+
+const SESSION_MODES: SessionMode[] = ['assist', 'rehearsal'];
+const SPEAKER_ROLES: SpeakerRole[] = ['user', 'local', 'remote', 'assistant'];
+const LANGUAGE_CODES = LANGUAGES.map(language => language.code);
+
+const invalid = (field: string) => new HttpError(400, `The request field "${field}" is missing or invalid.`);
+
+const text = (value: unknown, field: string, maxChars = MAX_TEXT_CHARS): string => {
+  if (typeof value !== 'string' || value.length > maxChars) throw invalid(field);
+  return value;
+};
+
+const oneOf = <T extends string>(value: unknown, options: T[], field: string): T => {
+  if (!options.includes(value as T)) throw invalid(field);
+  return value as T;
+};
+
+const count = (value: unknown, field: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw invalid(field);
+  return value;
+};
+
+const list = (value: unknown, field: string): any[] => {
+  if (!Array.isArray(value)) throw invalid(field);
+  return value;
+};
+
+const turns = (value: unknown): PromptTurn[] => {
+  const items = list(value, 'messages');
+  if (items.length === 0) throw invalid('messages');
+  return items.map((turn): PromptTurn => ({
+    role: oneOf(turn?.role, SPEAKER_ROLES, 'messages.role'),
+    type: turn?.type === 'typed' ? 'typed' : 'speech',
+    text: text(turn?.text, 'messages.text'),
+  }));
+};
+
+const scores = (value: unknown): PromptScore[] =>
+  list(value, 'scoreCards').map((card): PromptScore => ({
+    question: text(card?.question, 'scoreCards.question'),
+    score: count(card?.score, 'scoreCards.score'),
+    maxScore: count(card?.maxScore, 'scoreCards.maxScore'),
+    critique: text(card?.critique, 'scoreCards.critique'),
+  }));
+
+// Only these fields are read, so nothing else a client sends reaches the prompt
+export const parseGenerateTask = (body: any): GenerateTask => {
+  const knowledgeBase = text(body?.knowledgeBase ?? '', 'knowledgeBase', MAX_KNOWLEDGE_CHARS);
+  switch (body?.task) {
+    case 'report':
+      return { task: 'report', mode: oneOf(body.mode, SESSION_MODES, 'mode'), knowledgeBase, messages: turns(body.messages), scoreCards: scores(body.scoreCards ?? []) };
+    case 'translation':
+      if (!text(body.text, 'text').trim()) throw invalid('text');
+      return { task: 'translation', text: body.text, targetLanguage: oneOf(body.targetLanguage, LANGUAGE_CODES, 'targetLanguage'), knowledgeBase };
+    case 'outline':
+      return {
+        task: 'outline',
+        mode: oneOf(body.mode, SESSION_MODES, 'mode'),
+        knowledgeBase,
+        messages: turns(body.messages),
+        previousTitle: body.previousTitle == null ? null : text(body.previousTitle, 'previousTitle', MAX_TITLE_CHARS),
+      };
+    default:
+      throw new HttpError(400, 'Unknown generation task.');
+  }
+};
+
+export const buildTaskRequest = (task: GenerateTask, model: string): GenerateRequest => {
+  switch (task.task) {
+    case 'report':
+      return {
+        model,
+        contents: buildReportPrompt(task.messages, task.mode, task.knowledgeBase, task.scoreCards),
+        config: { responseMimeType: 'application/json', responseSchema: studyReportSchema },
+      };
+    case 'translation':
+      return { model, contents: buildTranslationPrompt(task.text, task.targetLanguage, task.knowledgeBase) };
+    case 'outline':
+      return {
+        model,
+        contents: buildOutlinePrompt(task.messages, task.mode, task.knowledgeBase, task.previousTitle),
+        config: { responseMimeType: 'application/json', responseSchema: outlineSectionSchema },
+      };
+  }
+};
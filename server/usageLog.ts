@@ -0,0 +1,27 @@
+import { appendFile } from 'node:fs/promises';
+
+export interface UsageEntry {
+  client: string;
+  endpoint: 'live-token' | 'generate';
+  model: string | null;
+  status: number;
+  durationMs: number;
+  // Only set for generate requests that reached Gemini
+  totalTokens?: number;
+  error?: string;
+}
+
+export interface UsageLog {
+  record: (entry: UsageEntry) => void;
+}
+
+// One JSON object per line so the file can be tailed or loaded into a spreadsheet
+export const createUsageLog = (path: string | null): UsageLog => ({
+  record(entry) {
+    const line = JSON.stringify({ at: new Date().toISOString(), ...entry });
+    console.log(line);
+    if (path) {
+      appendFile(path, `${line}\n`).catch(e => console.error("Usage Log Error:", e));
+    }
+  },
+});
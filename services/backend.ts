@@ -0,0 +1,70 @@
+import { v4 as uuidv4 } from 'uuid';
+import { GenerateTask, Message, PromptTurn } from '../types';
+
+// Empty means same origin: the Vite dev server proxies /api to the token server
+const BASE_URL = process.env.TOKEN_SERVER_URL ?? '';
+const CLIENT_ID_KEY = 'viva-guard:client-id';
+
+export interface LiveToken {
+  token: string;
+  expiresAt: string;
+  isDummy: boolean;
+}
+
+export type BackendFailure = 'unreachable' | 'rate-limited' | 'dummy-token' | 'rejected';
+
+export class BackendError extends Error {
+  constructor(public reason: BackendFailure, message: string) {
+    super(message);
+    this.name = 'BackendError';
+  }
+}
+
+// Lets the token server rate-limit each browser separately
+const getClientId = () => {
+  try {
+    const stored = window.localStorage.getItem(CLIENT_ID_KEY);
+    if (stored) return stored;
+    const id = uuidv4();
+    window.localStorage.setItem(CLIENT_ID_KEY, id);
+    return id;
+  } catch (e) {
+    return 'anonymous';
+  }
+};
+
+const postJson = async <T>(path: string, body: unknown): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(`${BASE_URL}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Viva-Client': getClientId() },
+      body: JSON.stringify(body),
+    });
+  } catch (e) {
+    throw new BackendError('unreachable', 'Could not reach the token server. Start it with "npm run server".');
+  }
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new BackendError(response.status === 429 ? 'rate-limited' : 'rejected', payload.error || `The token server returned ${response.status}.`);
+  }
+  return payload as T;
+};
+
+// Tokens are single use, so each connection (including reconnects) fetches its own
+export const fetchLiveToken = async (model: string): Promise<string> => {
+  const { token, isDummy } = await postJson<LiveToken>('/api/live-token', { model });
+  if (isDummy) {
+    throw new BackendError('dummy-token', 'The token server is issuing dummy tokens. Set LIVE_PROVIDER=mock to develop without Gemini.');
+  }
+  return token;
+};
+
+// Only what the prompt uses is sent, not ids, timings or translations
+export const toPromptTurns = (messages: Message[]): PromptTurn[] => messages.map(({ role, type, text }) => ({ role, type, text }));
+
+// The server writes the prompt for the task and picks the model
+export const generateText = async (task: GenerateTask): Promise<string> => {
+  const { text } = await postJson<{ text: string }>('/api/generate', task);
+  return text;
+};
@@ -0,0 +1,64 @@
+const DB_NAME = 'viva-guard';
+// v2 adds the flashcards store, v3 the session recordings, v4 the session profiles, v5 the knowledge documents
+const DB_VERSION = 5;
+
+export const SESSION_STORE = 'sessions';
+export const FLASHCARD_STORE = 'flashcards';
+export const RECORDING_STORE = 'recordings';
+export const PROFILE_STORE = 'profiles';
+export const DOCUMENT_STORE = 'documents';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (!window.indexedDB) {
+        reject(new Error('IndexedDB is not available in this browser. Session history will not be saved.'));
+        return;
+      }
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+          store.createIndex('startedAt', 'startedAt');
+        }
+        if (!db.objectStoreNames.contains(FLASHCARD_STORE)) {
+          const store = db.createObjectStore(FLASHCARD_STORE, { keyPath: 'id' });
+          store.createIndex('dueAt', 'dueAt');
+        }
+        if (!db.objectStoreNames.contains(RECORDING_STORE)) {
+          db.createObjectStore(RECORDING_STORE, { keyPath: 'sessionId' });
+        }
+        if (!db.objectStoreNames.contains(PROFILE_STORE)) {
+          db.createObjectStore(PROFILE_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(DOCUMENT_STORE)) {
+          db.createObjectStore(DOCUMENT_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. a blocked upgrade)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Resolves once the transaction commits. The action may queue several writes and return the one whose result is wanted.
+export const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request ? request.result : undefined as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
@@ -0,0 +1,16 @@
+import { KnowledgeDocument } from '../types';
+import { runRequest, DOCUMENT_STORE } from './database';
+
+// Documents are stored already chunked, so they are ready for retrieval without reading the files again
+export const listDocuments = async (): Promise<KnowledgeDocument[]> => {
+  const documents = await runRequest<KnowledgeDocument[]>(DOCUMENT_STORE, 'readonly', store => store.getAll());
+  return documents.sort((a, b) => a.addedAt.getTime() - b.addedAt.getTime());
+};
+
+// The list is small and edited as a whole, so it is replaced in one transaction
+export const replaceDocuments = async (documents: KnowledgeDocument[]): Promise<void> => {
+  await runRequest(DOCUMENT_STORE, 'readwrite', store => {
+    store.clear();
+    documents.forEach(document => store.put(document));
+  });
+};
@@ -0,0 +1,18 @@
+import { Flashcard } from '../types';
+import { runRequest, FLASHCARD_STORE } from './database';
+
+export const listFlashcards = async (): Promise<Flashcard[]> => {
+  const cards = await runRequest<Flashcard[]>(FLASHCARD_STORE, 'readonly', store => store.getAll());
+  return cards.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+};
+
+// Writes every card in one transaction so a bulk import is all or nothing
+export const saveFlashcards = async (cards: Flashcard[]): Promise<void> => {
+  await runRequest(FLASHCARD_STORE, 'readwrite', store => {
+    cards.forEach(card => store.put(card));
+  });
+};
+
+export const deleteFlashcard = async (id: string): Promise<void> => {
+  await runRequest(FLASHCARD_STORE, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,76 @@
+import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
+import { LiveTranscriptionProvider, LiveTranscriptionEvents } from './liveProvider';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash-native-audio-preview-12-2025';
+
+const dispatchMessage = (message: LiveServerMessage, events: LiveTranscriptionEvents) => {
+  const content = message.serverContent;
+
+  const audioData = content?.modelTurn?.parts?.[0]?.inlineData?.data;
+  if (audioData) {
+    events.onOutputAudio?.(audioData);
+  }
+  if (content?.interrupted) {
+    events.onInterrupted?.();
+  }
+
+  if (message.toolCall?.functionCalls) {
+    events.onToolCall?.(message.toolCall.functionCalls.map(fc => ({
+      id: fc.id,
+      name: fc.name ?? '',
+      args: fc.args ?? {},
+    })));
+  }
+
+  if (content?.outputTranscription?.text) {
+    events.onOutputTranscript(content.outputTranscription.text);
+  } else if (content?.inputTranscription?.text) {
+    events.onInputTranscript(content.inputTranscription.text);
+  }
+
+  if (content?.turnComplete) {
+    events.onTurnComplete();
+  }
+
+  const resumption = message.sessionResumptionUpdate;
+  if (resumption?.resumable && resumption.newHandle) {
+    events.onResumptionHandle?.(resumption.newHandle);
+  }
+};
+
+// The API key stays on the token server; each connection uses a fresh single-use token locked to its model
+export const createGeminiProvider = (getToken: (model: string) => Promise<string>): LiveTranscriptionProvider => ({
+  name: 'gemini',
+  async connect(options, events) {
+    const model = options.model ?? DEFAULT_GEMINI_MODEL;
+    const token = await getToken(model);
+    const ai = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+    const transcription = options.languageCode ? { languageCodes: [options.languageCode] } : {};
+    const session = await ai.live.connect({
+      model,
+      callbacks: {
+        onopen: () => events.onOpen(),
+        onmessage: (message: LiveServerMessage) => dispatchMessage(message, events),
+        onerror: (e: ErrorEvent) => events.onError(new Error(e.message || 'Connection interrupted.')),
+        onclose: () => events.onClose(),
+      },
+      config: {
+        responseModalities: [Modality.AUDIO],
+        outputAudioTranscription: transcription,
+        inputAudioTranscription: transcription,
+        systemInstruction: options.systemInstruction,
+        tools: options.tools?.length ? [{ functionDeclarations: options.tools }] : undefined,
+        sessionResumption: { handle: options.resumptionHandle },
+      },
+    });
+
+    return {
+      sendAudio: chunk => session.sendRealtimeInput({ media: chunk }),
+      sendText: text => session.sendClientContent({ turns: text, turnComplete: true }),
+      sendContext: text => session.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: false }),
+      sendToolResponses: responses => session.sendToolResponse({ functionResponses: responses }),
+      endAudioStream: () => session.sendRealtimeInput({ audioStreamEnd: true }),
+      close: () => session.close(),
+    };
+  },
+});
@@ -0,0 +1,58 @@
+import { v4 as uuidv4 } from 'uuid';
+import { KnowledgeDocument } from '../types';
+import { chunkText } from '../utils/retrieval';
+
+export const ACCEPTED_KNOWLEDGE_FILES = '.md,.markdown,.txt,.pdf,text/plain,text/markdown,application/pdf';
+
+const isPdf = (file: File) => file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+// pdf.js is large, so it is only loaded the first time a PDF is added.
+// The worker is served with the app so PDFs can be read offline.
+const extractPdfText = async (file: File): Promise<string> => {
+  const [pdfjs, { default: workerUrl }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+  }
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    const text = content.items
+      .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+      .join('');
+    pages.push(text.trim());
+  }
+  await pdf.destroy();
+  return pages.join('\n\n');
+};
+
+export const ingestFile = async (file: File): Promise<KnowledgeDocument> => {
+  let text: string;
+  try {
+    text = isPdf(file) ? await extractPdfText(file) : await file.text();
+  } catch (e: any) {
+    throw new Error(`Could not read "${file.name}": ${e.message}`);
+  }
+  if (!text.trim()) {
+    throw new Error(`"${file.name}" contains no extractable text. Scanned PDFs need OCR before they can be used.`);
+  }
+
+  const id = uuidv4();
+  return {
+    id,
+    name: file.name,
+    mimeType: file.type || (isPdf(file) ? 'application/pdf' : 'text/plain'),
+    addedAt: new Date(),
+    chunks: chunkText(text).map((chunk, index) => ({
+      id: `${id}:${index}`,
+      documentId: id,
+      documentName: file.name,
+      index,
+      text: chunk,
+    })),
+  };
+};
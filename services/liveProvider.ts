@@ -0,0 +1,59 @@
+import { FunctionDeclaration } from '@google/genai';
+import { AudioSource } from '../types';
+
+export interface AudioChunk {
+  data: string;
+  mimeType: string;
+}
+
+export interface ToolCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ToolResponse {
+  id?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+export interface LiveConnectOptions {
+  model?: string;
+  systemInstruction: string;
+  tools?: FunctionDeclaration[];
+  // Handle from a previous connection; providers that support resumption restore its context
+  resumptionHandle?: string;
+  // BCP-47 code of the spoken language; the provider detects it when unset
+  languageCode?: string;
+}
+
+export interface LiveTranscriptionEvents {
+  onOpen: () => void;
+  // `source` is only set by providers that already know who spoke (e.g. the scripted mock)
+  onInputTranscript: (text: string, source?: AudioSource) => void;
+  onOutputTranscript: (text: string) => void;
+  onTurnComplete: () => void;
+  onError: (error: Error) => void;
+  onClose: () => void;
+  onOutputAudio?: (base64Pcm: string) => void;
+  onInterrupted?: () => void;
+  onToolCall?: (calls: ToolCall[]) => void;
+  onResumptionHandle?: (handle: string) => void;
+}
+
+export interface LiveTranscriptionSession {
+  sendAudio: (chunk: AudioChunk) => void;
+  sendText: (text: string) => void;
+  // Adds reference material to the model's context without asking it to respond
+  sendContext: (text: string) => void;
+  sendToolResponses: (responses: ToolResponse[]) => void;
+  // Tells the model no more audio is coming for now, so it closes the current turn instead of waiting
+  endAudioStream: () => void;
+  close: () => void;
+}
+
+export interface LiveTranscriptionProvider {
+  name: string;
+  connect: (options: LiveConnectOptions, events: LiveTranscriptionEvents) => Promise<LiveTranscriptionSession>;
+}
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SessionState } from '../types';
+import { transition, SessionEvent } from '../hooks/useSessionMachine';
+import { parseSuggestionCard, suggestionCardDeclaration, recordScoreDeclaration } from '../utils/instructions';
+import { createMockProvider, MockFixture } from './mockProvider';
+import { LiveTranscriptionEvents } from './liveProvider';
+import assistFixture from './fixtures/mock-assist.json';
+import rehearsalFixture from './fixtures/mock-rehearsal.json';
+
+// Plays the role App does: provider events drive the session machine and build up the turns and cards
+const runSession = async (fixture: MockFixture) => {
+  let state: SessionState = { phase: 'idle' };
+  const send = (event: SessionEvent) => { state = transition(state, event); };
+  const turns: { input: string; output: string }[] = [];
+  const toolCalls: { name: string; args: Record<string, unknown> }[] = [];
+  let input = '';
+  let output = '';
+
+  const events: LiveTranscriptionEvents = {
+    onOpen: () => send({ type: 'opened' }),
+    onInputTranscript: text => { input += text; },
+    onOutputTranscript: text => { output += text; },
+    onToolCall: calls => { toolCalls.push(...calls); },
+    onTurnComplete: () => {
+      turns.push({ input, output });
+      input = '';
+      output = '';
+    },
+    onError: e => send({ type: 'stop', error: { code: 'connection-failed', detail: e.message } }),
+    onClose: () => send({ type: 'stop' }),
+  };
+
+  send({ type: 'start' });
+  send({ type: 'permissions-granted' });
+  const session = await createMockProvider(fixture).connect({ model: 'mock', systemInstruction: '', tools: [] }, events);
+  return { session, turns, toolCalls, state: () => state };
+};
+
+describe('mock provider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens the session and replays every assist turn with its cards', async () => {
+    const run = await runSession(assistFixture as MockFixture);
+    expect(run.state().phase).toBe('connecting');
+
+    await vi.advanceTimersByTimeAsync(assistFixture.openDelayMs);
+    expect(run.state().phase).toBe('live');
+
+    await vi.runAllTimersAsync();
+    expect(run.turns).toHaveLength(assistFixture.turns.length);
+    expect(run.turns[0].input).toBe('Let\'s start simple. What is the Nyquist rate for a signal band-limited to 4 kHz?');
+    expect(run.turns[0].output).toContain('8 kHz');
+
+    expect(run.toolCalls.every(call => call.name === suggestionCardDeclaration.name)).toBe(true);
+    const card = parseSuggestionCard(run.toolCalls[0].args);
+    expect(card).toMatchObject({ kind: 'key-concept', confidence: 0.95, sourceDocument: 'signals-lecture-notes.pdf' });
+  });
+
+  it('answers typed messages after the scripted turns', async () => {
+    const run = await runSession(assistFixture as MockFixture);
+    run.session.sendText('[Q1] explain aliasing');
+    await vi.runAllTimersAsync();
+
+    const reply = run.turns[run.turns.length - 1];
+    expect(run.turns).toHaveLength(assistFixture.turns.length + 1);
+    expect(reply.input).toBe('');
+    expect(reply.output).toBe(assistFixture.textReply.replace('{text}', '[Q1] explain aliasing'));
+  });
+
+  it('records examiner scores in a rehearsal', async () => {
+    const run = await runSession(rehearsalFixture as MockFixture);
+    await vi.runAllTimersAsync();
+
+    expect(run.turns[0]).toEqual({ input: '', output: rehearsalFixture.turns[0].output.join('') });
+    expect(run.toolCalls).toEqual([expect.objectContaining({ name: recordScoreDeclaration.name, args: expect.objectContaining({ score: 8 }) })]);
+  });
+
+  it('stops replaying and closes the session once', async () => {
+    const run = await runSession(assistFixture as MockFixture);
+    await vi.advanceTimersByTimeAsync(assistFixture.openDelayMs);
+
+    run.session.close();
+    run.session.close();
+    await vi.runAllTimersAsync();
+
+    expect(run.state()).toEqual({ phase: 'stopping', error: null });
+    expect(run.turns).toHaveLength(0);
+  });
+});
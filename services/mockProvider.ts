@@ -0,0 +1,90 @@
+import { AudioSource } from '../types';
+import { LiveTranscriptionProvider, LiveTranscriptionEvents } from './liveProvider';
+
+export interface MockTurn {
+  pauseMs: number;
+  input: { source: AudioSource; text: string }[];
+  output: string[];
+  toolCalls?: { name: string; args: Record<string, unknown> }[];
+}
+
+export interface MockFixture {
+  name: string;
+  openDelayMs: number;
+  chunkDelayMs: number;
+  turns: MockTurn[];
+  // `{text}` is replaced with whatever was typed into the session
+  textReply: string;
+}
+
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  };
+  const timer = setTimeout(() => {
+    signal.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+// Replays a scripted conversation with realistic chunk timing. Audio sent to it is ignored.
+export const createMockProvider = (fixture: MockFixture): LiveTranscriptionProvider => ({
+  name: 'mock',
+  async connect(_options, events: LiveTranscriptionEvents) {
+    const controller = new AbortController();
+    let queue = Promise.resolve();
+    let toolCallCount = 0;
+
+    const enqueue = (step: () => Promise<void>) => {
+      queue = queue.then(step).catch(e => {
+        if (!controller.signal.aborted) events.onError(e instanceof Error ? e : new Error(String(e)));
+      });
+    };
+
+    const playTurn = async (turn: MockTurn) => {
+      await wait(turn.pauseMs, controller.signal);
+      for (const chunk of turn.input) {
+        events.onInputTranscript(chunk.text, chunk.source);
+        await wait(fixture.chunkDelayMs, controller.signal);
+      }
+      if (turn.toolCalls?.length) {
+        events.onToolCall?.(turn.toolCalls.map(call => ({ id: `mock-call-${++toolCallCount}`, ...call })));
+      }
+      for (const chunk of turn.output) {
+        events.onOutputTranscript(chunk);
+        await wait(fixture.chunkDelayMs, controller.signal);
+      }
+      events.onTurnComplete();
+    };
+
+    enqueue(async () => {
+      await wait(fixture.openDelayMs, controller.signal);
+      events.onOpen();
+    });
+    fixture.turns.forEach(turn => enqueue(() => playTurn(turn)));
+
+    return {
+      sendAudio: () => {},
+      sendText: text => enqueue(() => playTurn({
+        pauseMs: fixture.chunkDelayMs,
+        input: [],
+        output: [fixture.textReply.replace('{text}', text)],
+      })),
+      sendContext: () => {},
+      sendToolResponses: () => {},
+      // Silence gating ends the stream after every utterance, so holding the script here would stall it
+      endAudioStream: () => {},
+      close: () => {
+        if (controller.signal.aborted) return;
+        controller.abort();
+        events.onClose();
+      },
+    };
+  },
+});
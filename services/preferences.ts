@@ -0,0 +1,69 @@
+import { AudioSettings, CaptionSettings, LanguageSettings, NotesSettings } from '../types';
+
+const AUDIO_SETTINGS_KEY = 'viva-guard:audio-settings';
+const CAPTION_SETTINGS_KEY = 'viva-guard:caption-settings';
+const LANGUAGE_SETTINGS_KEY = 'viva-guard:language-settings';
+const NOTES_SETTINGS_KEY = 'viva-guard:notes-settings';
+
+// The tab is boosted by default so the remote speaker is heard clearly over the local mic
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  micDeviceId: null,
+  micGain: 1.0,
+  systemGain: 2.0,
+  vadEnabled: true,
+  vadPreRollMs: 500,
+  vadHangOverMs: 1000,
+  silenceWarningSeconds: 10,
+};
+
+export const DEFAULT_CAPTION_SETTINGS: CaptionSettings = {
+  fontSize: 40,
+  lineCount: 3,
+  theme: 'dark',
+  speakerColours: true,
+};
+
+export const DEFAULT_LANGUAGE_SETTINGS: LanguageSettings = {
+  spokenLanguage: null,
+  translationLanguage: null,
+};
+
+export const DEFAULT_NOTES_SETTINGS: NotesSettings = {
+  enabled: false,
+  intervalMinutes: 5,
+};
+
+// Stored values are merged over the defaults so fields added later still get a value
+const loadPreference = <T>(key: string, defaults: T): T => {
+  try {
+    const stored = window.localStorage.getItem(key);
+    return stored ? { ...defaults, ...JSON.parse(stored) } : defaults;
+  } catch (e) {
+    console.error("Settings Load Error:", e);
+    return defaults;
+  }
+};
+
+const savePreference = <T>(key: string, value: T) => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.error("Settings Save Error:", e);
+  }
+};
+
+export const loadAudioSettings = (): AudioSettings => loadPreference(AUDIO_SETTINGS_KEY, DEFAULT_AUDIO_SETTINGS);
+
+export const saveAudioSettings = (settings: AudioSettings) => savePreference(AUDIO_SETTINGS_KEY, settings);
+
+export const loadCaptionSettings = (): CaptionSettings => loadPreference(CAPTION_SETTINGS_KEY, DEFAULT_CAPTION_SETTINGS);
+
+export const saveCaptionSettings = (settings: CaptionSettings) => savePreference(CAPTION_SETTINGS_KEY, settings);
+
+export const loadLanguageSettings = (): LanguageSettings => loadPreference(LANGUAGE_SETTINGS_KEY, DEFAULT_LANGUAGE_SETTINGS);
+
+export const saveLanguageSettings = (settings: LanguageSettings) => savePreference(LANGUAGE_SETTINGS_KEY, settings);
+
+export const loadNotesSettings = (): NotesSettings => loadPreference(NOTES_SETTINGS_KEY, DEFAULT_NOTES_SETTINGS);
+
+export const saveNotesSettings = (settings: NotesSettings) => savePreference(NOTES_SETTINGS_KEY, settings);
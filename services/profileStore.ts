@@ -0,0 +1,47 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ProfileImportResult, SessionProfile } from '../types';
+import { runRequest, PROFILE_STORE } from './database';
+import { DEFAULT_AUDIO_SETTINGS, DEFAULT_LANGUAGE_SETTINGS } from './preferences';
+
+// Imported files may come from an older build, so missing settings fall back to the defaults
+const normalizeProfile = (profile: SessionProfile): SessionProfile => ({
+  ...profile,
+  isPreset: false,
+  instructionTemplate: profile.instructionTemplate ?? null,
+  variables: profile.variables ?? {},
+  model: profile.model ?? null,
+  language: { ...DEFAULT_LANGUAGE_SETTINGS, ...profile.language },
+  audio: { ...DEFAULT_AUDIO_SETTINGS, ...profile.audio },
+});
+
+export const listProfiles = async (): Promise<SessionProfile[]> => {
+  const profiles = await runRequest<SessionProfile[]>(PROFILE_STORE, 'readonly', store => store.getAll());
+  return profiles.map(normalizeProfile).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Writes every profile in one transaction so an import is all or nothing
+export const saveProfiles = async (profiles: SessionProfile[]): Promise<void> => {
+  await runRequest(PROFILE_STORE, 'readwrite', store => {
+    profiles.forEach(profile => store.put(normalizeProfile(profile)));
+  });
+};
+
+// Like session imports, a clashing id gets a new one and the name is marked, so local edits are never overwritten
+export const importProfiles = async (profiles: SessionProfile[]): Promise<ProfileImportResult> => {
+  const stored = await runRequest<SessionProfile[]>(PROFILE_STORE, 'readonly', store => store.getAll());
+  const taken = new Set(stored.map(p => p.id));
+  const copied: string[] = [];
+  const saved = profiles.map(profile => {
+    const clashes = taken.has(profile.id);
+    if (clashes) copied.push(profile.name);
+    const imported = clashes ? { ...profile, id: uuidv4(), name: `${profile.name} (imported)` } : profile;
+    taken.add(imported.id);
+    return imported;
+  });
+  await saveProfiles(saved);
+  return { saved, copied };
+};
+
+export const deleteProfile = async (id: string): Promise<void> => {
+  await runRequest(PROFILE_STORE, 'readwrite', store => store.delete(id));
+};
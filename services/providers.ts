@@ -0,0 +1,17 @@
+import { SessionMode } from '../types';
+import { LiveTranscriptionProvider } from './liveProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { fetchLiveToken } from './backend';
+import { createMockProvider, MockFixture } from './mockProvider';
+import assistFixture from './fixtures/mock-assist.json';
+import rehearsalFixture from './fixtures/mock-rehearsal.json';
+
+// Set LIVE_PROVIDER=mock in .env.local to run without an API key or network
+export const isMockProvider = process.env.LIVE_PROVIDER === 'mock';
+
+export const createLiveProvider = (mode: SessionMode): LiveTranscriptionProvider => {
+  if (isMockProvider) {
+    return createMockProvider((mode === 'rehearsal' ? rehearsalFixture : assistFixture) as MockFixture);
+  }
+  return createGeminiProvider(fetchLiveToken);
+};
@@ -0,0 +1,16 @@
+import { runRequest, RECORDING_STORE } from './database';
+
+interface StoredRecording {
+  sessionId: string;
+  audio: Blob;
+}
+
+export const saveRecording = async (sessionId: string, audio: Blob): Promise<void> => {
+  const record: StoredRecording = { sessionId, audio };
+  await runRequest(RECORDING_STORE, 'readwrite', store => store.put(record));
+};
+
+export const getRecording = async (sessionId: string): Promise<Blob | undefined> => {
+  const stored = await runRequest<StoredRecording | undefined>(RECORDING_STORE, 'readonly', store => store.get(sessionId));
+  return stored?.audio;
+};
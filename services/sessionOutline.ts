@@ -0,0 +1,107 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Message, OutlinePoint, OutlineSection, SavedSession, SessionMode } from '../types';
+import { isMockProvider } from './providers';
+import { generateText, toPromptTurns } from './backend';
+
+const TITLE_WORDS = 8;
+const SUMMARY_CHARS = 280;
+const MAX_LOCAL_POINTS = 6;
+
+interface SectionDraft {
+  title: string;
+  summary: string;
+  points: { turn: number; text: string }[];
+}
+
+const turnStart = (m: Message) => m.startTime ?? m.timestamp;
+const turnEnd = (m: Message) => m.endTime ?? m.timestamp;
+
+const firstSentence = (text: string) => (text.trim().match(/^[^.!?]*[.!?]?/)?.[0] ?? '').trim();
+
+// Offline draft for the mock provider: the opening words make the title and each spoken turn a point
+const draftLocally = (messages: Message[]): SectionDraft => {
+  const spoken = messages
+    .map((m, turn) => ({ m, turn }))
+    .filter(({ m }) => m.role !== 'assistant' && m.text.trim());
+  const text = spoken.map(({ m }) => m.text.trim()).join(' ');
+  const words = text.split(/\s+/).filter(Boolean);
+  return {
+    title: words.length > TITLE_WORDS ? `${words.slice(0, TITLE_WORDS).join(' ')}…` : words.join(' ') || 'Untitled section',
+    summary: text.length > SUMMARY_CHARS ? `${text.slice(0, SUMMARY_CHARS).trimEnd()}…` : text,
+    points: spoken.slice(0, MAX_LOCAL_POINTS).map(({ m, turn }) => ({ turn, text: firstSentence(m.text) })),
+  };
+};
+
+const draftWithGemini = async (messages: Message[], mode: SessionMode, knowledgeBase: string, previousTitle: string | null): Promise<SectionDraft> => {
+  const text = await generateText({ task: 'outline', mode, knowledgeBase, messages: toPromptTurns(messages), previousTitle });
+  const parsed = JSON.parse(text || '{}');
+  return {
+    title: String(parsed.title ?? ''),
+    summary: String(parsed.summary ?? ''),
+    points: (parsed.points ?? []).map((p: any) => ({ turn: Number(p.turn), text: String(p.text ?? '') })),
+  };
+};
+
+// Condenses a stretch of finished turns into one outline section
+export const summariseStretch = async (
+  messages: Message[],
+  mode: SessionMode,
+  knowledgeBase: string,
+  previous: OutlineSection | null,
+): Promise<OutlineSection> => {
+  if (messages.length === 0) {
+    throw new Error('There are no new turns to summarise.');
+  }
+  const draft = isMockProvider
+    ? draftLocally(messages)
+    : await draftWithGemini(messages, mode, knowledgeBase, previous?.title ?? null);
+  const first = messages[0];
+  const last = messages[messages.length - 1];
+
+  return {
+    id: uuidv4(),
+    title: draft.title.trim() || 'Untitled section',
+    summary: draft.summary.trim(),
+    startTime: turnStart(first),
+    endTime: turnEnd(last),
+    firstMessageId: first.id,
+    lastMessageId: last.id,
+    points: draft.points
+      .filter(p => p.text.trim())
+      .map((p): OutlinePoint => {
+        // Turn numbers the model made up fall back to the start of the section
+        const source = messages[p.turn];
+        return { text: p.text.trim(), messageId: source?.id ?? null, timestamp: source ? turnStart(source) : turnStart(first) };
+      }),
+  };
+};
+
+// Turns that come after the last section, i.e. the ones the outline does not cover yet
+export const uncoveredTurns = (messages: Message[], outline: OutlineSection[]) => {
+  const last = outline[outline.length - 1];
+  if (!last) return messages;
+  return messages.slice(messages.findIndex(m => m.id === last.lastMessageId) + 1);
+};
+
+// Groups turns into windows of the notes interval, measured from the first turn of each window
+const splitByInterval = (messages: Message[], intervalMs: number): Message[][] => {
+  const stretches: Message[][] = [];
+  messages.forEach(m => {
+    const current = stretches[stretches.length - 1];
+    if (current && turnStart(m).getTime() - turnStart(current[0]).getTime() < intervalMs) {
+      current.push(m);
+    } else {
+      stretches.push([m]);
+    }
+  });
+  return stretches;
+};
+
+// Outlines the rest of a finished session in one go, for sessions recorded without notes mode
+export const buildOutline = async (session: SavedSession, intervalMinutes: number): Promise<OutlineSection[]> => {
+  const outline = [...session.outline];
+  for (const stretch of splitByInterval(uncoveredTurns(session.messages, outline), intervalMinutes * 60000)) {
+    outline.push(await summariseStretch(stretch, session.mode, session.knowledgeBase, outline[outline.length - 1] ?? null));
+  }
+  return outline;
+};
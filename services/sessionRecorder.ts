@@ -0,0 +1,42 @@
+// WebM/Opus first; Safari only offers MP4
+const PREFERRED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+const RECORDING_BITRATE = 64000;
+// Emit data every second so stopping never has to flush a large buffer
+const TIMESLICE_MS = 1000;
+
+export interface SessionRecorder {
+  mimeType: string;
+  start: () => void;
+  stop: () => Promise<Blob>;
+}
+
+export const isRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && PREFERRED_MIME_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+
+export const createSessionRecorder = (stream: MediaStream): SessionRecorder => {
+  const mimeType = typeof MediaRecorder === 'undefined'
+    ? undefined
+    : PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) {
+    throw new Error('Audio recording is not supported in this browser.');
+  }
+  const recorder = new MediaRecorder(stream, { mimeType, audioBitsPerSecond: RECORDING_BITRATE });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+
+  return {
+    mimeType,
+    start: () => recorder.start(TIMESLICE_MS),
+    stop: () => new Promise(resolve => {
+      const finish = () => resolve(new Blob(chunks, { type: mimeType }));
+      if (recorder.state === 'inactive') {
+        finish();
+        return;
+      }
+      recorder.addEventListener('stop', finish, { once: true });
+      recorder.stop();
+    }),
+  };
+};
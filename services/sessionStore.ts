@@ -0,0 +1,67 @@
+import { v4 as uuidv4 } from 'uuid';
+import { SavedSession, Suggestion } from '../types';
+import { runRequest, SESSION_STORE, RECORDING_STORE } from './database';
+
+// Dates survive the structured clone, so sessions come back exactly as they were saved
+export const saveSession = async (session: SavedSession): Promise<void> => {
+  await runRequest(SESSION_STORE, 'readwrite', store => store.put(session));
+};
+
+// Fills in fields added after a session was saved, so older records load with the current shape
+const normalizeSession = (session: SavedSession): SavedSession => ({
+  ...session,
+  messages: session.messages.map(m => ({ ...m, type: m.type ?? 'speech', replyTo: m.replyTo ?? null })),
+  suggestions: (session.suggestions ?? []).map((s): Suggestion => ({
+    ...(s.kind ? s : { ...s, kind: 'insight', confidence: null, relatedTopics: [] }),
+    sourceDocument: s.sourceDocument ?? null,
+    isPinned: s.isPinned ?? false,
+    tags: s.tags ?? [],
+    replyTo: s.replyTo ?? null,
+  })),
+  scoreCards: session.scoreCards ?? [],
+  errors: session.errors ?? [],
+  report: session.report ?? null,
+  recording: session.recording ?? null,
+  consent: session.consent ? { ...session.consent, analysedFile: session.consent.analysedFile ?? null } : null,
+  language: session.language ?? null,
+  outline: session.outline ?? [],
+});
+
+export const getSession = async (id: string): Promise<SavedSession | undefined> => {
+  const session = await runRequest<SavedSession | undefined>(SESSION_STORE, 'readonly', store => store.get(id));
+  return session && normalizeSession(session);
+};
+
+export const listSessions = async (): Promise<SavedSession[]> => {
+  const sessions = await runRequest<SavedSession[]>(SESSION_STORE, 'readonly', store => store.getAll());
+  return sessions
+    .map(normalizeSession)
+    .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+  const session = await getSession(id);
+  if (!session) return;
+  await saveSession({ ...session, name });
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await Promise.all([
+    runRequest(SESSION_STORE, 'readwrite', store => store.delete(id)),
+    runRequest(RECORDING_STORE, 'readwrite', store => store.delete(id)),
+  ]);
+};
+
+// Imports never replace a stored session: a clashing id gets a new one and the name is marked.
+// Exports do not carry the audio, so the recording metadata is dropped.
+export const importSession = async (session: SavedSession): Promise<SavedSession> => {
+  const existing = await getSession(session.id);
+  const imported = normalizeSession({
+    ...session,
+    id: existing ? uuidv4() : session.id,
+    name: existing ? `${session.name} (imported)` : session.name,
+    recording: null,
+  });
+  await saveSession(imported);
+  return imported;
+};
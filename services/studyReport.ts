@@ -0,0 +1,103 @@
+import { SavedSession, StudyReport, ReportQuestion, UnsureTopic, ReadingRecommendation } from '../types';
+import { RetrievalIndex, search } from '../utils/retrieval';
+import { isMockProvider } from './providers';
+import { generateText, toPromptTurns } from './backend';
+
+const EXCERPT_CHARS = 280;
+// Rehearsal answers scored below this share of the maximum count as unsure
+const LOW_SCORE_RATIO = 0.6;
+const HEDGES = /\b(i think|i guess|maybe|not sure|i don't know|i'm not|probably|um+|uh+)\b/i;
+
+interface ReportDraft {
+  questions: ReportQuestion[];
+  unsureTopics: UnsureTopic[];
+  reading: { topic: string; recommendation: string }[];
+}
+
+const excerpt = (text: string) => {
+  const trimmed = text.trim();
+  return trimmed.length > EXCERPT_CHARS ? `${trimmed.slice(0, EXCERPT_CHARS).trimEnd()}…` : trimmed;
+};
+
+// Offline draft for the mock provider: a question is a turn containing "?", answered by the next different speaker
+const draftLocally = (session: SavedSession): ReportDraft => {
+  const { messages, scoreCards } = session;
+  const questions: ReportQuestion[] = [];
+  const unsureTopics: UnsureTopic[] = [];
+
+  messages.forEach((m, idx) => {
+    const asked = m.text.match(/[^.!?]*\?/g);
+    if (!asked) return;
+    const question = asked[asked.length - 1].trim();
+    const answer = messages.slice(idx + 1).find(next => next.role !== m.role);
+    questions.push({ question, askedBy: m.role, answerSummary: answer ? excerpt(answer.text) : 'No answer was given.' });
+    if (answer && HEDGES.test(answer.text)) {
+      unsureTopics.push({ topic: question, evidence: `Hesitant answer: "${excerpt(answer.text)}"` });
+    }
+  });
+  scoreCards
+    .filter(c => c.maxScore > 0 && c.score / c.maxScore < LOW_SCORE_RATIO)
+    .forEach(c => unsureTopics.push({ topic: c.question, evidence: `Scored ${c.score}/${c.maxScore}. ${c.critique}` }));
+
+  return { questions, unsureTopics, reading: [] };
+};
+
+const draftWithGemini = async (session: SavedSession): Promise<ReportDraft> => {
+  const text = await generateText({
+    task: 'report',
+    mode: session.mode,
+    knowledgeBase: session.knowledgeBase,
+    messages: toPromptTurns(session.messages),
+    scoreCards: session.scoreCards.map(({ question, score, maxScore, critique }) => ({ question, score, maxScore, critique })),
+  });
+  const parsed = JSON.parse(text || '{}');
+
+  return {
+    questions: (parsed.questions ?? []).map((q: any): ReportQuestion => ({
+      question: String(q.question ?? ''),
+      askedBy: session.messages[Number(q.turn)]?.role ?? 'user',
+      answerSummary: String(q.answer_summary ?? ''),
+    })),
+    unsureTopics: (parsed.unsure_topics ?? []).map((t: any): UnsureTopic => ({
+      topic: String(t.topic ?? ''),
+      evidence: String(t.evidence ?? ''),
+    })),
+    reading: (parsed.follow_up_reading ?? []).map((r: any) => ({
+      topic: String(r.topic ?? ''),
+      recommendation: String(r.recommendation ?? ''),
+    })),
+  };
+};
+
+// Uploaded documents take precedence: each unsure topic points at the best matching section of the notes.
+// The model's general suggestions only fill in topics the notes do not cover.
+const recommendReading = (draft: ReportDraft, index: RetrievalIndex | null): ReadingRecommendation[] => {
+  const fromDocuments: ReadingRecommendation[] = [];
+  const usedChunks = new Set<string>();
+  if (index) {
+    draft.unsureTopics.forEach(({ topic }) => {
+      const hit = search(index, topic, 1)[0];
+      if (!hit || usedChunks.has(hit.chunk.id)) return;
+      usedChunks.add(hit.chunk.id);
+      fromDocuments.push({ topic, documentName: hit.chunk.documentName, excerpt: excerpt(hit.chunk.text) });
+    });
+  }
+  const covered = new Set(fromDocuments.map(r => r.topic.toLowerCase()));
+  const general = draft.reading
+    .filter(r => r.recommendation && !covered.has(r.topic.toLowerCase()))
+    .map((r): ReadingRecommendation => ({ topic: r.topic, documentName: null, excerpt: r.recommendation }));
+  return [...fromDocuments, ...general];
+};
+
+export const generateStudyReport = async (session: SavedSession, index: RetrievalIndex | null): Promise<StudyReport> => {
+  if (session.messages.length === 0) {
+    throw new Error('The session has no transcript to report on.');
+  }
+  const draft = isMockProvider ? draftLocally(session) : await draftWithGemini(session);
+  return {
+    generatedAt: new Date(),
+    questions: draft.questions.filter(q => q.question),
+    unsureTopics: draft.unsureTopics.filter(t => t.topic),
+    followUpReading: recommendReading(draft, index),
+  };
+};
@@ -0,0 +1,15 @@
+import { languageName } from '../utils/languages';
+import { isMockProvider } from './providers';
+import { generateText } from './backend';
+
+// The mock provider works offline, so it only tags the text to show where translations appear
+export const translateTurn = async (text: string, targetLanguage: string, knowledgeBase: string): Promise<string> => {
+  if (isMockProvider) {
+    return `[${languageName(targetLanguage)}] ${text.trim()}`;
+  }
+  const translation = (await generateText({ task: 'translation', text, targetLanguage, knowledgeBase })).trim();
+  if (!translation) {
+    throw new Error('The translation came back empty.');
+  }
+  return translation;
+};
@@ -1,22 +1,314 @@
 
+// 'local' is the microphone and 'remote' the shared tab. 'user' is unattributed audio from older sessions.
+export type SpeakerRole = 'user' | 'local' | 'remote' | 'assistant';
+
+export type AudioSource = 'local' | 'remote';
+
+// 'typed' turns were entered in the text box during a live session rather than transcribed
+export type MessageType = 'speech' | 'typed';
+
 export interface Message {
   id: string;
-  role: 'user' | 'assistant';
+  role: SpeakerRole;
+  type: MessageType;
   text: string;
   timestamp: Date;
+  // When the first and last transcription chunk of the turn arrived
+  startTime?: Date;
+  endTime?: Date;
+  // Added shortly after the turn is finalised when live translation is on
+  translation?: MessageTranslation;
+  // The typed message this assistant turn answers
+  replyTo: string | null;
 }
 
+export interface MessageTranslation {
+  // BCP-47 code of the target language
+  language: string;
+  text: string;
+}
+
+// 'insight' covers untyped cards: raw model text and cards saved before structured output
+export type SuggestionKind = 'key-concept' | 'definition' | 'clarification' | 'follow-up' | 'reference' | 'insight';
+
 export interface Suggestion {
   id: string;
+  kind: SuggestionKind;
   title: string;
   content: string;
-  confidence: number;
+  // 0-1 as reported by the model, null when it gave none
+  confidence: number | null;
+  relatedTopics: string[];
+  // Name of the uploaded knowledge document the card drew from
+  sourceDocument: string | null;
+  // Pinned cards are exempt from the on-screen card limit
+  isPinned: boolean;
+  // Added by the user, stored lower-case without the leading #
+  tags: string[];
+  // The typed message the card answers
+  replyTo: string | null;
+  timestamp: Date;
+}
+
+export type SessionErrorCode =
+  | 'insecure-context'
+  | 'unsupported-browser'
+  | 'microphone-denied'
+  | 'microphone-unavailable'
+  | 'tab-share-denied'
+  | 'tab-audio-missing'
+  | 'file-unreadable'
+  | 'token-server-unreachable'
+  | 'token-server-dummy'
+  | 'rate-limited'
+  | 'token-rejected'
+  | 'connection-failed'
+  | 'connection-lost'
+  | 'recording-save-failed'
+  | 'export-failed'
+  | 'unknown';
+
+export interface SessionError {
+  code: SessionErrorCode;
+  // The underlying message, kept for the session log and shown under the friendly text
+  detail: string | null;
+}
+
+export type SessionState =
+  | { phase: 'idle' }
+  | { phase: 'requesting-permissions' }
+  | { phase: 'connecting' }
+  | { phase: 'live' }
+  | { phase: 'paused' }
+  // `wasPaused` returns the session to paused rather than live once it reconnects
+  | { phase: 'reconnecting'; attempt: number; wasPaused: boolean }
+  | { phase: 'stopping'; error: SessionError | null }
+  | { phase: 'error'; error: SessionError };
+
+export type SessionMode = 'assist' | 'rehearsal';
+
+export interface ScoreCard {
+  id: string;
+  question: string;
+  answer: string;
+  score: number;
+  maxScore: number;
+  critique: string;
+  timestamp: Date;
+}
+
+export interface SessionErrorRecord {
+  message: string;
+  timestamp: Date;
+}
+
+export interface SavedSession {
+  id: string;
+  name: string;
+  mode: SessionMode;
+  knowledgeBase: string;
+  startedAt: Date;
+  endedAt: Date | null;
+  messages: Message[];
+  suggestions: Suggestion[];
+  scoreCards: ScoreCard[];
+  errors: SessionErrorRecord[];
+  // Generated once the session ends; null until then or if generation failed
+  report: StudyReport | null;
+  // The audio itself is stored separately, keyed by session id
+  recording: SessionRecording | null;
+  consent: ConsentRecord | null;
+  // BCP-47 code the transcription was pinned to; null when the language was auto-detected
+  language: string | null;
+  // Rolling summaries written in notes mode, oldest first
+  outline: OutlineSection[];
+}
+
+// What the user agreed to before capture started, kept verbatim as the institution's record
+export interface ConsentRecord {
+  acceptedAt: Date;
+  sources: AudioSource[];
+  // Set instead of sources when a recorded file was analysed
+  analysedFile: string | null;
+  destination: string;
+  recordedLocally: boolean;
+  // True once the user confirmed the other participants were told; always false for mic-only sessions
+  participantsInformed: boolean;
+  statement: string;
+}
+
+export interface SessionRecording {
+  mimeType: string;
+  // When the recorder started, used to line transcript turns up with the audio
+  startedAt: Date;
+  durationMs: number;
+  sizeBytes: number;
+}
+
+export interface ReportQuestion {
+  question: string;
+  askedBy: SpeakerRole;
+  answerSummary: string;
+}
+
+export interface UnsureTopic {
+  topic: string;
+  // What in the transcript suggested the speaker was unsure
+  evidence: string;
+}
+
+export interface ReadingRecommendation {
+  topic: string;
+  // Null when the recommendation is general rather than from an uploaded document
+  documentName: string | null;
+  excerpt: string;
+}
+
+export interface StudyReport {
+  generatedAt: Date;
+  questions: ReportQuestion[];
+  unsureTopics: UnsureTopic[];
+  followUpReading: ReadingRecommendation[];
+}
+
+// One bullet under a section, linked to the turn it came from
+export interface OutlinePoint {
+  text: string;
+  // Null when the point could not be tied to a single turn
+  messageId: string | null;
   timestamp: Date;
 }
 
-export interface SessionStatus {
-  isActive: boolean;
-  isConnecting: boolean;
-  isMicActive: boolean;
-  error: string | null;
+// Summary of one stretch of the transcript
+export interface OutlineSection {
+  id: string;
+  title: string;
+  summary: string;
+  startTime: Date;
+  endTime: Date;
+  firstMessageId: string;
+  // The next section starts after this turn
+  lastMessageId: string;
+  points: OutlinePoint[];
+}
+
+// The parts of a turn and a score that text generation prompts use
+export type PromptTurn = Pick<Message, 'role' | 'type' | 'text'>;
+export type PromptScore = Pick<ScoreCard, 'question' | 'score' | 'maxScore' | 'critique'>;
+
+// Text generation sends the inputs of a known task; the token server writes the prompt and picks the model
+export type GenerateTask =
+  | { task: 'report'; mode: SessionMode; knowledgeBase: string; messages: PromptTurn[]; scoreCards: PromptScore[] }
+  | { task: 'translation'; text: string; targetLanguage: string; knowledgeBase: string }
+  | { task: 'outline'; mode: SessionMode; knowledgeBase: string; messages: PromptTurn[]; previousTitle: string | null };
+
+export type ExportFormat = 'markdown' | 'json' | 'srt' | 'vtt';
+
+export interface KnowledgeChunk {
+  id: string;
+  documentId: string;
+  documentName: string;
+  index: number;
+  text: string;
+}
+
+export interface KnowledgeDocument {
+  id: string;
+  name: string;
+  mimeType: string;
+  addedAt: Date;
+  chunks: KnowledgeChunk[];
+}
+
+export interface Flashcard {
+  id: string;
+  front: string;
+  back: string;
+  // Session the card was made from, null for imported or hand-written cards
+  sessionId: string | null;
+  createdAt: Date;
+  // SM-2 scheduling state
+  dueAt: Date;
+  intervalDays: number;
+  repetitions: number;
+  easeFactor: number;
+  lastReviewedAt: Date | null;
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface AudioSettings {
+  // Null uses the browser's default microphone
+  micDeviceId: string | null;
+  micGain: number;
+  systemGain: number;
+  // Only stream audio while someone is speaking
+  vadEnabled: boolean;
+  // Audio kept from just before speech is detected so its first syllable is not lost
+  vadPreRollMs: number;
+  // How long streaming continues after speech stops
+  vadHangOverMs: number;
+  // A source that stays quiet this long during a session is flagged
+  silenceWarningSeconds: number;
+}
+
+export interface VoiceActivity {
+  // Only the sources captured in the session have an entry
+  speaking: Partial<Record<AudioSource, boolean>>;
+  // Raw PCM, before the base64 encoding used on the wire
+  bytesSent: number;
+  bytesSaved: number;
+}
+
+export interface LanguageSettings {
+  // Null lets the model detect the spoken language
+  spokenLanguage: string | null;
+  // Null turns live translation off
+  translationLanguage: string | null;
+}
+
+export interface NotesSettings {
+  // Condenses the transcript into an outline while a session runs
+  enabled: boolean;
+  intervalMinutes: number;
+}
+
+// Everything needed to start a session for one course or meeting type
+export interface SessionProfile {
+  id: string;
+  name: string;
+  // Built-in presets live in code and are copied rather than edited
+  isPreset: boolean;
+  mode: SessionMode;
+  knowledgeBase: string;
+  // {{variable}} placeholders are filled in when the session starts; null uses the built-in instruction for the mode
+  instructionTemplate: string | null;
+  variables: Record<string, string>;
+  // Null uses the default live model
+  model: string | null;
+  language: LanguageSettings;
+  audio: AudioSettings;
+  updatedAt: Date;
+}
+
+export interface ProfileImportResult {
+  saved: SessionProfile[];
+  // Names of imported profiles whose id was already taken, saved as copies instead of replacing the stored one
+  copied: string[];
+}
+
+export type CaptionTheme = 'dark' | 'light' | 'yellow';
+
+export interface CaptionSettings {
+  fontSize: number;
+  // Visible caption lines, counted after wrapping
+  lineCount: number;
+  theme: CaptionTheme;
+  speakerColours: boolean;
+}
+
+export interface SourceAnalysers {
+  local: AnalyserNode;
+  // Null in mic-only rehearsal sessions
+  remote: AnalyserNode | null;
 }
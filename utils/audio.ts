@@ -0,0 +1,46 @@
+// btoa needs a binary string; build it in slices instead of one character at a time
+const ENCODE_CHUNK_SIZE = 0x8000;
+
+export const encode = (bytes: Uint8Array): string => {
+  const chunks: string[] = [];
+  for (let i = 0; i < bytes.length; i += ENCODE_CHUNK_SIZE) {
+    chunks.push(String.fromCharCode(...bytes.subarray(i, i + ENCODE_CHUNK_SIZE)));
+  }
+  return btoa(chunks.join(''));
+};
+
+export const createBlob = (pcm: Int16Array, sampleRate: number) => ({
+  data: encode(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
+  mimeType: `audio/pcm;rate=${sampleRate}`,
+});
+
+export const decode = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// The live model streams raw 16-bit little-endian PCM, which decodeAudioData cannot parse.
+export const decodeAudioData = (
+  data: Uint8Array,
+  ctx: AudioContext,
+  sampleRate: number,
+  numChannels: number,
+): AudioBuffer => {
+  // Int16Array needs an even offset, so a chunk sliced at an odd byte is copied first; a trailing odd byte is dropped
+  const aligned = data.byteOffset % 2 === 0 ? data : data.slice();
+  const dataInt16 = new Int16Array(aligned.buffer, aligned.byteOffset, Math.floor(aligned.byteLength / 2));
+  const frameCount = Math.floor(dataInt16.length / numChannels);
+  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+    }
+  }
+  return buffer;
+};
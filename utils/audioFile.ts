@@ -0,0 +1,134 @@
+export const ACCEPTED_AUDIO_FILES = '.wav,.mp3,.webm,.ogg,.m4a,audio/wav,audio/mpeg,audio/webm,audio/ogg';
+
+// decodeAudioData has no streaming mode, so the whole file is decoded into Float32 channels at once.
+// An hour of stereo 48 kHz audio is over 1 GB while decoding, so longer or larger files are refused up front.
+export const MAX_AUDIO_FILE_MINUTES = 60;
+export const MAX_AUDIO_FILE_BYTES = 200 * 1024 * 1024;
+
+const tooLong = (file: File) =>
+  new Error(`"${file.name}" is too long to analyse. Use a recording of at most ${MAX_AUDIO_FILE_MINUTES} minutes, or split it into parts.`);
+
+// Reads the duration from the file's metadata without decoding it; streamed WebM files may not record one
+const readDurationSeconds = (file: File) => new Promise<number | null>(resolve => {
+  const url = URL.createObjectURL(file);
+  const audio = new Audio();
+  const finish = (duration: number | null) => {
+    URL.revokeObjectURL(url);
+    resolve(duration !== null && Number.isFinite(duration) ? duration : null);
+  };
+  audio.preload = 'metadata';
+  audio.onloadedmetadata = () => finish(audio.duration);
+  audio.onerror = () => finish(null);
+  audio.src = url;
+});
+
+export const checkAudioFile = async (file: File): Promise<void> => {
+  if (file.size > MAX_AUDIO_FILE_BYTES) {
+    throw new Error(`"${file.name}" is larger than ${MAX_AUDIO_FILE_BYTES / (1024 * 1024)} MB. Use a compressed format such as MP3, or split the recording into parts.`);
+  }
+  const duration = await readDurationSeconds(file);
+  if (duration !== null && duration > MAX_AUDIO_FILE_MINUTES * 60) {
+    throw tooLong(file);
+  }
+};
+
+// Decoding through an OfflineAudioContext running at the target rate makes the browser do the resampling
+export const decodeAudioFileToPcm = async (file: File, sampleRate: number): Promise<Int16Array> => {
+  await checkAudioFile(file);
+  const ctx = new OfflineAudioContext(1, 1, sampleRate);
+  let buffer: AudioBuffer;
+  try {
+    buffer = await ctx.decodeAudioData(await file.arrayBuffer());
+  } catch (e: any) {
+    throw new Error(`Could not decode "${file.name}". Use a WAV, MP3 or WebM file. (${e?.message ?? e})`);
+  }
+  // Files without a duration in their metadata are only caught here
+  if (buffer.duration > MAX_AUDIO_FILE_MINUTES * 60) {
+    throw tooLong(file);
+  }
+
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch));
+  const pcm = new Int16Array(buffer.length);
+  for (let i = 0; i < buffer.length; i++) {
+    let sum = 0;
+    for (const channel of channels) sum += channel[i];
+    const sample = Math.max(-1, Math.min(1, sum / channels.length));
+    pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return pcm;
+};
+
+export interface PcmFeeder {
+  durationSeconds: number;
+  start: () => void;
+  pause: () => void;
+  resume: () => void;
+  stop: () => void;
+}
+
+interface PcmFeederOptions {
+  sampleRate: number;
+  frameSize: number;
+  // 1 streams in real time, 2 twice as fast, and so on
+  speed: number;
+  onFrame: (frame: Int16Array) => void;
+  onProgress: (positionSeconds: number) => void;
+  onEnd: () => void;
+}
+
+// Streams a decoded file frame by frame on a clock, the way the capture worklet would deliver live audio
+export const createPcmFeeder = (pcm: Int16Array, options: PcmFeederOptions): PcmFeeder => {
+  const { sampleRate, frameSize, speed, onFrame, onProgress, onEnd } = options;
+  const frameMs = (frameSize / sampleRate) * 1000 / speed;
+  let state: 'idle' | 'running' | 'paused' | 'stopped' = 'idle';
+  let position = 0;
+  let nextFrameAt = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const clearTimer = () => {
+    if (timer !== null) clearTimeout(timer);
+    timer = null;
+  };
+
+  const tick = () => {
+    timer = null;
+    if (state !== 'running') return;
+    if (position >= pcm.length) {
+      state = 'stopped';
+      onEnd();
+      return;
+    }
+    const frame = pcm.slice(position, position + frameSize);
+    position += frame.length;
+    onFrame(frame);
+    onProgress(position / sampleRate);
+    // Scheduling against an absolute clock keeps timer jitter from accumulating into drift
+    nextFrameAt += frameMs;
+    timer = setTimeout(tick, Math.max(0, nextFrameAt - performance.now()));
+  };
+
+  const run = () => {
+    state = 'running';
+    nextFrameAt = performance.now();
+    tick();
+  };
+
+  return {
+    durationSeconds: pcm.length / sampleRate,
+    start: () => {
+      if (state === 'idle') run();
+    },
+    pause: () => {
+      if (state !== 'running') return;
+      state = 'paused';
+      clearTimer();
+    },
+    resume: () => {
+      if (state === 'paused') run();
+    },
+    stop: () => {
+      state = 'stopped';
+      clearTimer();
+    },
+  };
+};
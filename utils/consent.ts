@@ -0,0 +1,37 @@
+import { AudioSource, SessionMode } from '../types';
+
+export const SOURCE_DESCRIPTIONS: Record<AudioSource, string> = {
+  local: 'your microphone',
+  remote: 'the audio of the browser tab you share (the other participants)',
+};
+
+export const sourcesForMode = (mode: SessionMode, fileName: string | null = null): AudioSource[] =>
+  fileName ? [] : mode === 'rehearsal' ? ['local'] : ['local', 'remote'];
+
+export const describeCapture = (sources: AudioSource[], fileName: string | null) =>
+  fileName ? `the audio file "${fileName}"` : sources.map(source => SOURCE_DESCRIPTIONS[source]).join(' and ');
+
+export const describeDestination = (isMock: boolean) => isMock
+  ? 'a scripted local test backend (nothing leaves this device)'
+  : 'the Google Gemini Live API, a cloud AI service operated by Google';
+
+// The exact wording shown in the consent dialog; it is stored with the session unchanged
+export const buildConsentStatement = (sources: AudioSource[], destination: string, recordLocally: boolean, fileName: string | null = null) => [
+  `Viva Guard will ${fileName ? 'read' : 'capture'} ${describeCapture(sources, fileName)}.`,
+  `The audio is streamed live to ${destination} for transcription and assistance.`,
+  'The transcript and assistance cards are saved in this browser.',
+  fileName
+    ? 'Viva Guard does not keep a copy of the file.'
+    : recordLocally
+      ? 'A recording of the session audio is also saved in this browser.'
+      : 'The session audio itself is not recorded.',
+].join(' ');
+
+export const PARTICIPANT_CONFIRMATION = 'I confirm that everyone else in the call has been told their audio will be transcribed by an AI service, and has agreed.';
+
+export const RECORDING_CONFIRMATION = 'I confirm that the people heard in this recording agreed to it being transcribed by an AI service.';
+
+export const buildDisclosureMessage = (destination: string, recordLocally: boolean) =>
+  `Heads up: I'm using an AI transcription assistant (Viva Guard) in this call. Audio is sent to ${destination} to produce a live transcript${
+    recordLocally ? ', and the session audio is recorded on my device' : ''
+  }. Please let me know if you do not agree and I will turn it off.`;
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { Flashcard } from '../types';
+import { initialSchedule } from './spacedRepetition';
+import { parseAnkiCsv, toAnkiCsv } from './flashcards';
+
+const card = (front: string, back: string): Flashcard => ({
+  id: front, front, back, sessionId: null, createdAt: new Date(0), ...initialSchedule(new Date(0)),
+});
+
+describe('parseAnkiCsv', () => {
+  it('reads a plain two-column CSV and skips a Front,Back header row', () => {
+    expect(parseAnkiCsv('Front,Back\nNyquist rate?,2 × bandwidth\n')).toEqual([{ front: 'Nyquist rate?', back: '2 × bandwidth' }]);
+  });
+
+  it('guesses tabs when the first row has them', () => {
+    expect(parseAnkiCsv('Aliasing\tFolding of high frequencies\n')).toEqual([{ front: 'Aliasing', back: 'Folding of high frequencies' }]);
+  });
+
+  it('honours a named #separator header', () => {
+    expect(parseAnkiCsv('#separator:semicolon\nQ;A, with a comma\n')).toEqual([{ front: 'Q', back: 'A, with a comma' }]);
+  });
+
+  it('reads quoted fields with separators, doubled quotes and newlines', () => {
+    expect(parseAnkiCsv('"Define ""SNR""","Signal, over\nnoise"\r\n')).toEqual([{ front: 'Define "SNR"', back: 'Signal, over\nnoise' }]);
+  });
+
+  it('skips the guid, note type, deck and tags columns Anki declares', () => {
+    const exported = [
+      '#separator:tab',
+      '#html:false',
+      '#guid column:1',
+      '#notetype column:2',
+      '#deck column:3',
+      '#tags column:6',
+      'f8Xq{1\tBasic\tSignals\tWhat is aliasing?\tFolding of frequencies above Nyquist\tsampling',
+    ].join('\n');
+    expect(parseAnkiCsv(exported)).toEqual([{ front: 'What is aliasing?', back: 'Folding of frequencies above Nyquist' }]);
+  });
+
+  it('drops rows missing either side and fails when nothing is left', () => {
+    expect(parseAnkiCsv('Q1,A1\nonly a front\n,only a back\n')).toEqual([{ front: 'Q1', back: 'A1' }]);
+    expect(() => parseAnkiCsv('one column\n')).toThrow('No cards found');
+  });
+
+  it('reads back what toAnkiCsv writes', () => {
+    const cards = [card('Plain', 'Answer'), card('With, comma', 'Line one\nline "two"')];
+    expect(parseAnkiCsv(toAnkiCsv(cards))).toEqual(cards.map(({ front, back }) => ({ front, back })));
+  });
+});
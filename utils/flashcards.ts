@@ -0,0 +1,119 @@
+import { Flashcard, SavedSession } from '../types';
+
+export interface CardDraft {
+  front: string;
+  back: string;
+}
+
+const ANKI_TAG = 'viva-guard';
+
+// Anki's names for the separators it writes in the #separator header
+const NAMED_SEPARATORS: Record<string, string> = { comma: ',', semicolon: ';', tab: '\t', pipe: '|', space: ' ', colon: ':' };
+
+// Headers such as "#guid column:1" mark columns that hold note metadata rather than fields
+const METADATA_COLUMN_HEADERS = ['guid column', 'notetype column', 'deck column', 'tags column'];
+
+// Assist sessions pair each spoken turn with the assistant reply that follows it.
+// In a rehearsal the examiner asks and the student answers, so the score cards already hold the pairs.
+export const extractCardDrafts = (session: SavedSession): CardDraft[] => {
+  if (session.mode === 'rehearsal') {
+    return session.scoreCards
+      .filter(c => c.question.trim())
+      .map(c => ({ front: c.question.trim(), back: [c.answer.trim(), c.critique.trim()].filter(Boolean).join('\n\n') }));
+  }
+  const drafts: CardDraft[] = [];
+  session.messages.forEach((m, idx) => {
+    const next = session.messages[idx + 1];
+    if (m.role === 'assistant' || next?.role !== 'assistant') return;
+    if (!m.text.trim() || !next.text.trim()) return;
+    drafts.push({ front: m.text.trim(), back: next.text.trim() });
+  });
+  return drafts;
+};
+
+const quoteField = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toAnkiCsv = (cards: Flashcard[]): string =>
+  [
+    '#separator:comma',
+    '#html:false',
+    '#tags column:3',
+    ...cards.map(card => [card.front, card.back, ANKI_TAG].map(quoteField).join(',')),
+  ].join('\n') + '\n';
+
+// RFC 4180 style: quoted fields may contain separators, doubled quotes and newlines
+const parseRows = (text: string, separator: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const stripHtml = (value: string) => {
+  const doc = new DOMParser().parseFromString(value.replace(/<br\s*\/?>/gi, '\n'), 'text/html');
+  return doc.body.textContent ?? '';
+};
+
+// Reads Anki's "Notes in Plain Text" export as well as plain two-column CSV
+export const parseAnkiCsv = (text: string): CardDraft[] => {
+  const headers = new Map<string, string>();
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  let firstDataLine = 0;
+  while (firstDataLine < lines.length && lines[firstDataLine].startsWith('#')) {
+    const [key, ...rest] = lines[firstDataLine].slice(1).split(':');
+    headers.set(key.trim().toLowerCase(), rest.join(':').trim());
+    firstDataLine++;
+  }
+  const body = lines.slice(firstDataLine).join('\n');
+
+  const declared = headers.get('separator');
+  const separator = declared
+    ? NAMED_SEPARATORS[declared.toLowerCase()] ?? declared
+    : (body.split('\n')[0].includes('\t') ? '\t' : ',');
+  const isHtml = headers.get('html')?.toLowerCase() === 'true';
+  const clean = (value: string) => (isHtml ? stripHtml(value) : value).trim();
+  // Column numbers in the headers count from 1
+  const metadataColumns = new Set(METADATA_COLUMN_HEADERS.map(key => Number(headers.get(key)) - 1).filter(idx => idx >= 0));
+
+  const drafts = parseRows(body, separator)
+    .map(row => row.filter((_, idx) => !metadataColumns.has(idx)))
+    .map(fields => ({ front: clean(fields[0] ?? ''), back: clean(fields[1] ?? '') }))
+    // Spreadsheet exports often start with a Front,Back header row
+    .filter((d, idx) => d.front && d.back && !(idx === 0 && d.front.toLowerCase() === 'front' && d.back.toLowerCase() === 'back'));
+  if (drafts.length === 0) {
+    throw new Error('No cards found. The file needs at least two columns: front and back.');
+  }
+  return drafts;
+};
@@ -0,0 +1,268 @@
+import { FunctionDeclaration, Schema, Type } from '@google/genai';
+import { Message, SessionMode, Suggestion, SuggestionKind, KnowledgeChunk, PromptTurn, PromptScore } from '../types';
+import { messageSpeakerLabel } from './speakers';
+import { languageName } from './languages';
+import { renderTemplate } from './templates';
+
+const DEFAULT_CONTEXT = 'Professional viva/academic interview.';
+
+const describeDocuments = (documentNames: string[]) => documentNames.length === 0 ? '' : `
+
+            UPLOADED DOCUMENTS: ${documentNames.join(', ')}
+            Relevant excerpts are sent during the session as REFERENCE MATERIAL. Prefer them over general knowledge.`;
+
+const TYPED_MESSAGES_NOTE = `
+
+            TYPED MESSAGES: The student may also type questions or notes when they cannot speak, e.g. "explain that last term again" or "summarise the last five minutes". These arrive as text, not audio, and start with a tag such as [Q3]. Answer each one straight away through show_suggestion_card, using the conversation so far for context, and set reply_to to its tag on every card that answers it. Leave reply_to out of all other cards.`;
+
+// Typed messages are numbered per session so cards can say which one they answer
+export const typedMessageTag = (index: number) => `Q${index}`;
+
+export const formatTypedMessage = (tag: string, text: string) => `[${tag}] ${text}`;
+
+const describeLanguage = (languageCode: string | null) => languageCode === null ? '' : `
+
+            LANGUAGE: The conversation is in ${languageName(languageCode)}. Use ${languageName(languageCode)} for everything you say and write.`;
+
+export const buildAssistInstruction = (knowledgeBase: string, documentNames: string[] = [], languageCode: string | null = null) => `You are the Viva Intelligence Guard.
+
+            PARTIES IN STREAM:
+            - PROFESSOR (Priority, System Audio): Asking questions or explaining.
+            - STUDENT (User, Microphone): Responding to the professor.
+            - YOU: Silent visual assistant providing instant help.
+
+            TASKS:
+            1. Listen to the Professor. If they ask a question like "What is 1+1?", show the answer and explanation IMMEDIATELY by calling show_suggestion_card.
+            2. Listen to the Student. If they answer "1+1 is 2", confirm visually. If they struggle or get it wrong, call show_suggestion_card with a clarification or key concept immediately.
+            3. Deliver ALL help through show_suggestion_card, one card per idea. Pick the kind that fits, give an honest confidence, and keep the body short with **Bold**, bullet points, and short sentences.
+            4. When a card is based on REFERENCE MATERIAL, set source_document to the name of the document it came from.
+            5. STAY SILENT. Do not speak. Your help is 100% visual.
+            6. IGNORE FEEDBACK: Do not process your own previous transcription results as new input.${TYPED_MESSAGES_NOTE}
+
+            KNOWLEDGE CONTEXT: ${knowledgeBase || DEFAULT_CONTEXT}${describeDocuments(documentNames)}${describeLanguage(languageCode)}`;
+
+export const buildRehearsalInstruction = (knowledgeBase: string, documentNames: string[] = [], languageCode: string | null = null) => `You are a Viva Examiner running a mock viva rehearsal.
+
+            PARTIES IN STREAM:
+            - YOU: The examiner. You speak out loud.
+            - STUDENT (User, Microphone): Answering your questions.
+
+            TASKS:
+            1. Ask ONE spoken question at a time, drawn from the knowledge context below. Keep each question short and clear.
+            2. Wait for the student to finish answering. Do not interrupt and do not answer for them.
+            3. After each answer, call the record_score tool with the question, a short summary of the answer, a score out of 10 and a concise critique.
+            4. Briefly tell the student how they did, then move on to the next question. Increase difficulty as they succeed.
+            5. If the student asks to stop, thank them and stop asking questions.
+
+            KNOWLEDGE CONTEXT: ${knowledgeBase || DEFAULT_CONTEXT}${describeDocuments(documentNames)}${describeLanguage(languageCode)}`;
+
+// Profile templates replace the built-in task list; the typed message, document and language notes are still
+// appended because threading, retrieval and transcription depend on them whatever the template says
+export const buildTemplateInstruction = (
+  template: string,
+  variables: Record<string, string>,
+  knowledgeBase: string,
+  mode: SessionMode,
+  documentNames: string[] = [],
+  languageCode: string | null = null
+) => renderTemplate(template, {
+  ...variables,
+  knowledge_base: knowledgeBase || DEFAULT_CONTEXT,
+  documents: documentNames.join(', ') || 'none',
+  date: new Date().toLocaleDateString(),
+}) + (mode === 'assist' ? TYPED_MESSAGES_NOTE : '') + describeDocuments(documentNames) + describeLanguage(languageCode);
+
+export const buildRetrievedContext = (chunks: KnowledgeChunk[]) => [
+  'REFERENCE MATERIAL for the latest turn. Do not reply to this message; use it in your next cards.',
+  ...chunks.map(chunk => `[Source: ${chunk.documentName}]\n${chunk.text}`),
+].join('\n\n');
+
+const RESUME_CONTEXT_TURNS = 20;
+
+// Used when reconnecting without a resumption handle, so the new connection is not starting cold
+export const buildResumeContext = (messages: Message[], mode: SessionMode) => {
+  if (messages.length === 0) return '';
+  const transcript = messages
+    .slice(-RESUME_CONTEXT_TURNS)
+    .map(m => `[${messageSpeakerLabel(m, mode)}]: ${m.text.trim()}`)
+    .join('\n');
+  return `
+
+            CONNECTION RESUMED: The previous connection dropped. The most recent conversation is below.
+            Continue from where it left off. Do not repeat or respond again to turns that were already answered.
+
+${transcript}`;
+};
+
+const SUGGESTION_KINDS: Exclude<SuggestionKind, 'insight'>[] = ['key-concept', 'definition', 'clarification', 'follow-up', 'reference'];
+
+export const suggestionCardDeclaration: FunctionDeclaration = {
+  name: 'show_suggestion_card',
+  description: 'Shows one assistance card to the student. Call once per distinct answer, concept or hint.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      kind: {
+        type: Type.STRING,
+        enum: SUGGESTION_KINDS,
+        description: 'key-concept: core idea to mention. definition: precise meaning of a term. clarification: correction or hint for what was just said. follow-up: a question the student could ask back. reference: a source, formula or further reading.',
+      },
+      title: { type: Type.STRING, description: 'A short heading of at most eight words.' },
+      body: { type: Type.STRING, description: 'The card content in concise Markdown.' },
+      confidence: { type: Type.NUMBER, description: 'How sure you are that the card is correct and relevant, from 0 to 1.' },
+      related_topics: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Up to five short topic tags.' },
+      source_document: { type: Type.STRING, description: 'Name of the uploaded document the card is based on, if any.' },
+      reply_to: { type: Type.STRING, description: 'Tag of the typed message this card answers, e.g. Q3. Only for answers to typed messages.' },
+    },
+    required: ['kind', 'title', 'body', 'confidence'],
+  },
+};
+
+export const parseSuggestionCard = (args: Record<string, unknown>): Omit<Suggestion, 'id' | 'timestamp' | 'isPinned' | 'tags' | 'replyTo'> => {
+  const kind = SUGGESTION_KINDS.includes(args.kind as any) ? args.kind as SuggestionKind : 'insight';
+  const confidence = Number(args.confidence);
+  return {
+    kind,
+    title: String(args.title ?? '').trim() || 'Suggestion',
+    content: String(args.body ?? ''),
+    confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : null,
+    relatedTopics: Array.isArray(args.related_topics) ? args.related_topics.map(String).slice(0, 5) : [],
+    sourceDocument: typeof args.source_document === 'string' && args.source_document.trim() ? args.source_document.trim() : null,
+  };
+};
+
+export const REHEARSAL_KICKOFF = 'Please begin the viva with your first question.';
+
+export const recordScoreDeclaration: FunctionDeclaration = {
+  name: 'record_score',
+  description: 'Records the score and critique for the student answer to the question just asked.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      question: { type: Type.STRING, description: 'The question that was asked.' },
+      answer: { type: Type.STRING, description: 'A one or two sentence summary of the student answer.' },
+      score: { type: Type.NUMBER, description: 'Score from 0 to 10.' },
+      critique: { type: Type.STRING, description: 'What was good, what was missing and how to improve.' },
+    },
+    required: ['question', 'answer', 'score', 'critique'],
+  },
+};
+
+// Turns are numbered so the model can point back at who asked each question
+export const buildReportPrompt = (messages: PromptTurn[], mode: SessionMode, knowledgeBase: string, scoreCards: PromptScore[]) => {
+  const transcript = messages
+    .map((m, idx) => `#${idx} [${messageSpeakerLabel(m, mode)}]: ${m.text.trim()}`)
+    .join('\n');
+  const scores = scoreCards.length === 0 ? '' : `
+
+EXAMINER SCORES:
+${scoreCards.map(c => `- ${c.score}/${c.maxScore} "${c.question}": ${c.critique}`).join('\n')}`;
+
+  return `You are writing a study report for a student after a ${mode === 'rehearsal' ? 'mock viva rehearsal' : 'live viva or interview'}.
+
+TASKS:
+1. List every question that came up, in order. Give the number of the turn it was asked in and a one or two sentence summary of the answer that was given. If nobody answered, say so.
+2. List the topics the student seemed unsure about: hesitation, hedging, wrong or incomplete answers, low scores. Quote or paraphrase the evidence.
+3. Recommend follow-up reading for each unsure topic. Prefer the knowledge context below and name the section or concept to revisit.
+
+Do not invent questions that are not in the transcript.
+
+KNOWLEDGE CONTEXT: ${knowledgeBase || DEFAULT_CONTEXT}${scores}
+
+TRANSCRIPT:
+${transcript}`;
+};
+
+// The previous heading is passed so a topic that runs across sections keeps a consistent name
+export const buildOutlinePrompt = (messages: PromptTurn[], mode: SessionMode, knowledgeBase: string, previousTitle: string | null) => {
+  const transcript = messages
+    .map((m, idx) => `#${idx} [${messageSpeakerLabel(m, mode)}]: ${m.text.trim()}`)
+    .join('\n');
+  const previous = previousTitle ? `\nThe previous section was titled "${previousTitle}". Reuse that title only if the same topic is still being covered.\n` : '';
+
+  return `You are taking notes during a long lecture, seminar or interview. Condense the stretch of transcript below into one section of an outline.
+
+TASKS:
+1. Give the section a short title naming the main topic, at most eight words.
+2. Summarise what was covered in two or three sentences.
+3. List the key points, definitions, examples and questions in the order they came up, one short line each. Give the number of the turn each point comes from.
+
+Only use what is in the transcript. Skip small talk and logistics unless they matter later (deadlines, reading, assessment).
+${previous}
+KNOWLEDGE CONTEXT: ${knowledgeBase || DEFAULT_CONTEXT}
+
+TRANSCRIPT:
+${transcript}`;
+};
+
+// The knowledge context is passed along so subject terms are translated the way the course uses them
+export const buildTranslationPrompt = (text: string, targetLanguage: string, knowledgeBase: string) => `Translate the following spoken transcript turn into ${languageName(targetLanguage)}.
+
+Keep technical terms accurate. If a term has no common translation, keep the original and add the translation in brackets.
+Reply with the translation only: no notes, no quotes, no transliteration.
+
+SUBJECT: ${knowledgeBase || DEFAULT_CONTEXT}
+
+TURN:
+${text.trim()}`;
+
+export const studyReportSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    questions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          turn: { type: Type.INTEGER, description: 'Number of the transcript turn the question was asked in.' },
+          question: { type: Type.STRING },
+          answer_summary: { type: Type.STRING },
+        },
+        required: ['turn', 'question', 'answer_summary'],
+      },
+    },
+    unsure_topics: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          topic: { type: Type.STRING, description: 'A short topic name.' },
+          evidence: { type: Type.STRING },
+        },
+        required: ['topic', 'evidence'],
+      },
+    },
+    follow_up_reading: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          topic: { type: Type.STRING },
+          recommendation: { type: Type.STRING, description: 'What to read or revise, in one or two sentences.' },
+        },
+        required: ['topic', 'recommendation'],
+      },
+    },
+  },
+  required: ['questions', 'unsure_topics', 'follow_up_reading'],
+};
+
+export const outlineSectionSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    summary: { type: Type.STRING },
+    points: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          turn: { type: Type.INTEGER, description: 'Number of the transcript turn the point comes from.' },
+          text: { type: Type.STRING },
+        },
+        required: ['turn', 'text'],
+      },
+    },
+  },
+  required: ['title', 'summary', 'points'],
+};
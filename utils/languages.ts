@@ -0,0 +1,36 @@
+export interface LanguageOption {
+  // BCP-47 code, as the Live API expects for transcription hints
+  code: string;
+  name: string;
+}
+
+export const LANGUAGES: LanguageOption[] = [
+  { code: 'en-US', name: 'English (US)' },
+  { code: 'en-GB', name: 'English (UK)' },
+  { code: 'en-IN', name: 'English (India)' },
+  { code: 'ar-EG', name: 'Arabic' },
+  { code: 'bn-BD', name: 'Bengali' },
+  { code: 'zh-CN', name: 'Chinese (Mandarin)' },
+  { code: 'nl-NL', name: 'Dutch' },
+  { code: 'fr-FR', name: 'French' },
+  { code: 'de-DE', name: 'German' },
+  { code: 'hi-IN', name: 'Hindi' },
+  { code: 'id-ID', name: 'Indonesian' },
+  { code: 'it-IT', name: 'Italian' },
+  { code: 'ja-JP', name: 'Japanese' },
+  { code: 'ko-KR', name: 'Korean' },
+  { code: 'ms-MY', name: 'Malay' },
+  { code: 'pl-PL', name: 'Polish' },
+  { code: 'pt-BR', name: 'Portuguese (Brazil)' },
+  { code: 'ru-RU', name: 'Russian' },
+  { code: 'si-LK', name: 'Sinhala' },
+  { code: 'es-ES', name: 'Spanish' },
+  { code: 'ta-IN', name: 'Tamil' },
+  { code: 'th-TH', name: 'Thai' },
+  { code: 'tr-TR', name: 'Turkish' },
+  { code: 'ur-PK', name: 'Urdu' },
+  { code: 'vi-VN', name: 'Vietnamese' },
+];
+
+// Unknown codes (e.g. from an import) are shown as-is rather than dropped
+export const languageName = (code: string) => LANGUAGES.find(l => l.code === code)?.name ?? code;
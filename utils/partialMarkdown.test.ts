@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { closePartialMarkdown } from './partialMarkdown';
+
+describe('closePartialMarkdown', () => {
+  it('leaves finished Markdown alone', () => {
+    const text = '**Bold**, `code` and $x^2$.\n\n```ts\nconst a = 1;\n```';
+    expect(closePartialMarkdown(text)).toBe(text);
+  });
+
+  it('closes an open code fence with the same marker', () => {
+    expect(closePartialMarkdown('Example:\n```ts\nconst a')).toBe('Example:\n```ts\nconst a\n```');
+    expect(closePartialMarkdown('~~~\ncode')).toBe('~~~\ncode\n~~~');
+  });
+
+  it('does not close emphasis inside an open fence', () => {
+    expect(closePartialMarkdown('```\n**not bold')).toBe('```\n**not bold\n```');
+  });
+
+  it('closes open bold and inline code in the current paragraph', () => {
+    expect(closePartialMarkdown('The answer is **8 kHz')).toBe('The answer is **8 kHz**');
+    expect(closePartialMarkdown('Call `render')).toBe('Call `render`');
+  });
+
+  it('ignores emphasis left open in an earlier paragraph', () => {
+    expect(closePartialMarkdown('Stray ** here\n\nNew paragraph')).toBe('Stray ** here\n\nNew paragraph');
+  });
+
+  it('ignores markers inside inline code and escaped markers', () => {
+    expect(closePartialMarkdown('Use `a ** b` for powers')).toBe('Use `a ** b` for powers');
+    expect(closePartialMarkdown('Literal \\** stars')).toBe('Literal \\** stars');
+  });
+
+  it('closes display and inline maths but not prices', () => {
+    expect(closePartialMarkdown('$$\\int_0^1 x')).toBe('$$\\int_0^1 x$$');
+    expect(closePartialMarkdown('where $f(x')).toBe('where $f(x$');
+    expect(closePartialMarkdown('It costs $5')).toBe('It costs $5');
+  });
+
+  it('finishes a half-written table row', () => {
+    expect(closePartialMarkdown('| a | b |\n|---|---|\n| 1 | 2')).toBe('| a | b |\n|---|---|\n| 1 | 2 |');
+  });
+});
@@ -0,0 +1,42 @@
+// Streaming output stops mid-token, so unterminated constructs are closed before rendering.
+// Otherwise an open ``` fence swallows the rest of the card and an open ** turns into literal asterisks.
+
+const FENCE = /^\s*(```|~~~)/;
+
+const countUnescaped = (text: string, token: string) => {
+  let count = 0;
+  for (let i = text.indexOf(token); i >= 0; i = text.indexOf(token, i + token.length)) {
+    if (text[i - 1] !== '\\') count++;
+  }
+  return count;
+};
+
+// Inline code spans are removed first so their contents are not counted
+const stripInlineCode = (text: string) => text.replace(/`[^`\n]*`/g, '');
+
+export const closePartialMarkdown = (text: string): string => {
+  const lines = text.split('\n');
+  let openFence: string | null = null;
+  for (const line of lines) {
+    const match = line.match(FENCE);
+    if (!match) continue;
+    if (openFence === null) openFence = match[1];
+    else if (match[1] === openFence) openFence = null;
+  }
+  if (openFence !== null) return `${text}\n${openFence}`;
+
+  if (countUnescaped(stripInlineCode(text), '$$') % 2 === 1) return `${text}$$`;
+
+  // Emphasis and inline code never span paragraphs, so only the one being written can be open
+  const paragraph = text.slice(text.lastIndexOf('\n\n') + 1);
+  if (countUnescaped(paragraph, '`') % 2 === 1) return `${text}\``;
+  let closed = text;
+  const paragraphProse = stripInlineCode(paragraph);
+  const singleDollars = countUnescaped(paragraphProse.replace(/\$\$/g, ''), '$');
+  // A dollar followed by a digit is far more often a price than the start of a formula
+  if (singleDollars % 2 === 1 && /\$[^\s\d$][^$]*$/.test(paragraphProse)) closed += '$';
+  if (countUnescaped(paragraphProse, '**') % 2 === 1) closed += '**';
+  // A half-written table row would otherwise knock the whole table back to plain text
+  if (/^\s*\|/.test(lines[lines.length - 1]) && !lines[lines.length - 1].trimEnd().endsWith('|')) closed += ' |';
+  return closed;
+};
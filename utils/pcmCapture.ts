@@ -0,0 +1,92 @@
+const PROCESSOR_NAME = 'pcm-capture';
+
+export const TARGET_SAMPLE_RATE = 16000;
+export const DEFAULT_FRAME_SIZE = 4096;
+
+// Runs on the audio rendering thread. Kept as a string and loaded from a Blob URL so it works
+// both under Vite and when the app is served straight from the import map.
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, frameSize } = options.processorOptions;
+    this.ratio = sampleRate / targetSampleRate;
+    this.frameSize = frameSize;
+    this.frame = new Int16Array(frameSize);
+    this.frameIndex = 0;
+    this.sum = 0;
+    this.count = 0;
+    this.position = 0;
+    this.lastValue = 0;
+  }
+
+  push(value) {
+    const clamped = Math.max(-1, Math.min(1, value));
+    this.frame[this.frameIndex++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+    if (this.frameIndex === this.frameSize) {
+      this.port.postMessage(this.frame.buffer, [this.frame.buffer]);
+      this.frame = new Int16Array(this.frameSize);
+      this.frameIndex = 0;
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (!input || input.length === 0) return true;
+    const length = input[0].length;
+    for (let i = 0; i < length; i++) {
+      let sample = 0;
+      for (let c = 0; c < input.length; c++) sample += input[c][i];
+      // Box-filter decimation: average every input sample that falls inside one output period
+      this.sum += sample / input.length;
+      this.count++;
+      this.position += 1;
+      while (this.position >= this.ratio) {
+        this.position -= this.ratio;
+        if (this.count > 0) {
+          this.lastValue = this.sum / this.count;
+          this.sum = 0;
+          this.count = 0;
+        }
+        this.push(this.lastValue);
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+export interface PcmCaptureOptions {
+  targetSampleRate?: number;
+  frameSize?: number;
+}
+
+// Emits Int16 frames of `frameSize` samples at `targetSampleRate` as transferred ArrayBuffers on `port`
+export const createPcmCaptureNode = async (
+  ctx: AudioContext,
+  { targetSampleRate = TARGET_SAMPLE_RATE, frameSize = DEFAULT_FRAME_SIZE }: PcmCaptureOptions = {},
+): Promise<AudioWorkletNode> => {
+  if (!ctx.audioWorklet) {
+    throw new Error("AudioWorklet is not supported in this browser. Please use a recent version of Chrome, Edge or Firefox.");
+  }
+  if (!loadedContexts.has(ctx)) {
+    const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+    try {
+      await ctx.audioWorklet.addModule(url);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+    loadedContexts.add(ctx);
+  }
+  // No outputs: the node only needs to pull audio, so nothing is routed to the speakers
+  return new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { targetSampleRate, frameSize },
+  });
+};
@@ -0,0 +1,36 @@
+import { v4 as uuidv4 } from 'uuid';
+import { SessionProfile } from '../types';
+import { PRESET_ID_PREFIX } from './profilePresets';
+
+const PROFILE_FORMAT_ID = 'viva-guard-profiles';
+const PROFILE_FORMAT_VERSION = 1;
+
+export const toProfilesJson = (profiles: SessionProfile[]): string =>
+  JSON.stringify({
+    format: PROFILE_FORMAT_ID,
+    version: PROFILE_FORMAT_VERSION,
+    profiles: profiles.map(({ isPreset, ...profile }) => profile),
+  }, null, 2);
+
+export const parseProfilesJson = (text: string): SessionProfile[] => {
+  const parsed = JSON.parse(text, (key, value) => key === 'updatedAt' && typeof value === 'string' ? new Date(value) : value);
+  if (parsed?.format !== PROFILE_FORMAT_ID || !Array.isArray(parsed.profiles)) {
+    throw new Error('This file is not a Viva Guard profile export.');
+  }
+  if (parsed.version > PROFILE_FORMAT_VERSION) {
+    throw new Error(`This export was made by a newer version (format v${parsed.version}).`);
+  }
+  const profiles = (parsed.profiles as SessionProfile[]).filter(p => p && typeof p.name === 'string' && p.name.trim());
+  if (profiles.length === 0) {
+    throw new Error('The file contains no profiles.');
+  }
+  // An edited preset exported from another browser must not shadow the built-in one
+  return profiles.map(p => ({
+    ...p,
+    id: !p.id || p.id.startsWith(PRESET_ID_PREFIX) ? uuidv4() : p.id,
+    isPreset: false,
+    mode: p.mode === 'rehearsal' ? 'rehearsal' : 'assist',
+    knowledgeBase: p.knowledgeBase ?? '',
+    updatedAt: p.updatedAt instanceof Date ? p.updatedAt : new Date(),
+  }));
+};
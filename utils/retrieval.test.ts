@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { KnowledgeChunk } from '../types';
+import { buildIndex, chunkText, search, tokenize } from './retrieval';
+
+const chunk = (id: string, text: string): KnowledgeChunk => ({ id, documentId: 'doc', documentName: 'notes.md', index: 0, text });
+
+describe('tokenize', () => {
+  it('lower-cases words and drops stopwords and single letters', () => {
+    expect(tokenize('What is the Nyquist rate of a 4 kHz signal?')).toEqual(['nyquist', 'rate', 'khz', 'signal']);
+  });
+
+  it('keeps letters outside ASCII', () => {
+    expect(tokenize('Fourier-Transformation und Abtastung')).toEqual(['fourier', 'transformation', 'und', 'abtastung']);
+  });
+});
+
+describe('chunkText', () => {
+  it('packs short paragraphs into one chunk', () => {
+    expect(chunkText('First paragraph.\n\nSecond paragraph.')).toEqual(['First paragraph.\n\nSecond paragraph.']);
+  });
+
+  it('starts a new chunk when the next paragraph would overflow', () => {
+    const paragraph = 'x'.repeat(600);
+    expect(chunkText(`${paragraph}\n\n${paragraph}`)).toEqual([paragraph, paragraph]);
+  });
+
+  it('cuts long paragraphs on sentence boundaries with an overlap', () => {
+    const text = Array.from({ length: 10 }, (_, i) => `Sentence ${i} ${'word '.repeat(40).trim()}. `).join('');
+    const chunks = chunkText(text);
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(c => expect(c.length).toBeLessThanOrEqual(900 + 150));
+    // The tail of one chunk is repeated at the start of the next
+    expect(chunks[1].slice(0, 150)).toContain(chunks[0].slice(-100));
+  });
+});
+
+describe('search', () => {
+  const index = buildIndex([
+    chunk('sampling', 'The Nyquist rate is twice the bandwidth. Sampling below the Nyquist rate causes aliasing.'),
+    chunk('fourier', 'The Fourier transform maps a signal from time to frequency.'),
+    chunk('filters', 'An anti-aliasing filter removes frequencies above half the sampling rate.'),
+  ]);
+
+  it('ranks the chunk with the most matching terms first', () => {
+    const hits = search(index, 'what is the nyquist rate');
+    expect(hits[0].chunk.id).toBe('sampling');
+    expect(hits.map(h => h.chunk.id)).not.toContain('fourier');
+  });
+
+  it('weights rare terms above common ones', () => {
+    const hits = search(index, 'fourier sampling');
+    expect(hits[0].chunk.id).toBe('fourier');
+  });
+
+  it('returns nothing for a query of stopwords or an empty index', () => {
+    expect(search(index, 'what is the')).toEqual([]);
+    expect(search(buildIndex([]), 'nyquist')).toEqual([]);
+  });
+
+  it('respects the limit', () => {
+    expect(search(index, 'nyquist fourier filter', 2)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,100 @@
+import { KnowledgeChunk } from '../types';
+
+const CHUNK_TARGET_CHARS = 900;
+const CHUNK_OVERLAP_CHARS = 150;
+
+// Standard Okapi BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from', 'has', 'have',
+  'how', 'i', 'if', 'in', 'is', 'it', 'its', 'of', 'on', 'or', 'so', 'that', 'the', 'their', 'then', 'there',
+  'these', 'this', 'to', 'was', 'we', 'what', 'when', 'which', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? ([] as string[])).filter(t => t.length > 1 && !STOPWORDS.has(t));
+
+// Splits on paragraph boundaries, packing paragraphs into chunks of roughly CHUNK_TARGET_CHARS.
+// Oversized paragraphs are cut on sentence boundaries, with a short overlap so ideas are not split cold.
+export const chunkText = (text: string): string[] => {
+  const paragraphs = text.replace(/\r\n/g, '\n').split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+  const chunks: string[] = [];
+  let current = '';
+
+  const pushLong = (paragraph: string) => {
+    const sentences = paragraph.match(/[^.!?]+[.!?]*\s*/g) ?? [paragraph];
+    let piece = '';
+    sentences.forEach(sentence => {
+      if (piece && piece.length + sentence.length > CHUNK_TARGET_CHARS) {
+        chunks.push(piece.trim());
+        piece = piece.slice(-CHUNK_OVERLAP_CHARS);
+      }
+      piece += sentence;
+    });
+    if (piece.trim()) chunks.push(piece.trim());
+  };
+
+  paragraphs.forEach(paragraph => {
+    if (paragraph.length > CHUNK_TARGET_CHARS) {
+      if (current) chunks.push(current);
+      current = '';
+      pushLong(paragraph);
+    } else if (current && current.length + paragraph.length > CHUNK_TARGET_CHARS) {
+      chunks.push(current);
+      current = paragraph;
+    } else {
+      current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+  });
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+export interface RetrievalIndex {
+  chunks: KnowledgeChunk[];
+  termFrequencies: Map<string, number>[];
+  lengths: number[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+export interface RetrievalHit {
+  chunk: KnowledgeChunk;
+  score: number;
+}
+
+export const buildIndex = (chunks: KnowledgeChunk[]): RetrievalIndex => {
+  const documentFrequency = new Map<string, number>();
+  const termFrequencies = chunks.map(chunk => {
+    const tf = new Map<string, number>();
+    tokenize(chunk.text).forEach(term => tf.set(term, (tf.get(term) ?? 0) + 1));
+    tf.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+    return tf;
+  });
+  const lengths = termFrequencies.map(tf => Array.from(tf.values()).reduce((sum, n) => sum + n, 0));
+  const averageLength = lengths.length ? lengths.reduce((sum, n) => sum + n, 0) / lengths.length : 0;
+  return { chunks, termFrequencies, lengths, documentFrequency, averageLength };
+};
+
+export const search = (index: RetrievalIndex, query: string, limit = 3): RetrievalHit[] => {
+  const terms = Array.from(new Set(tokenize(query)));
+  const total = index.chunks.length;
+  if (terms.length === 0 || total === 0) return [];
+
+  const hits: RetrievalHit[] = [];
+  index.termFrequencies.forEach((tf, i) => {
+    let score = 0;
+    terms.forEach(term => {
+      const freq = tf.get(term);
+      if (!freq) return;
+      const df = index.documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+      const norm = 1 - BM25_B + BM25_B * (index.lengths[i] / (index.averageLength || 1));
+      score += idf * (freq * (BM25_K1 + 1)) / (freq + BM25_K1 * norm);
+    });
+    if (score > 0) hits.push({ chunk: index.chunks[i], score });
+  });
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+};
@@ -0,0 +1,96 @@
+import { SavedSession, SpeakerRole, SuggestionKind } from '../types';
+
+export type SearchTimeRange = 'all' | '15m' | '1h' | '24h' | '7d';
+
+export interface SearchFilters {
+  speaker: SpeakerRole | 'any';
+  kind: SuggestionKind | 'any';
+  timeRange: SearchTimeRange;
+  pinnedOnly: boolean;
+}
+
+export const DEFAULT_SEARCH_FILTERS: SearchFilters = { speaker: 'any', kind: 'any', timeRange: 'all', pinnedOnly: false };
+
+export const TIME_RANGE_MS: Record<Exclude<SearchTimeRange, 'all'>, number> = {
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+};
+
+export type SearchableSession = Pick<SavedSession, 'id' | 'name' | 'mode' | 'startedAt' | 'messages' | 'suggestions'>;
+
+export interface SearchResult {
+  type: 'message' | 'card';
+  id: string;
+  session: SearchableSession;
+  // Speaker for messages, card kind for cards
+  role: SpeakerRole;
+  kind: SuggestionKind | null;
+  title: string;
+  text: string;
+  tags: string[];
+  isPinned: boolean;
+  timestamp: Date;
+}
+
+const MAX_RESULTS = 200;
+
+export const searchTerms = (query: string) => query.toLowerCase().split(/\s+/).filter(Boolean);
+
+export const hasActiveFilters = (filters: SearchFilters) =>
+  filters.speaker !== 'any' || filters.kind !== 'any' || filters.timeRange !== 'all' || filters.pinnedOnly;
+
+const toResults = (session: SearchableSession): SearchResult[] => [
+  ...session.messages.map((m): SearchResult => ({
+    type: 'message',
+    id: m.id,
+    session,
+    role: m.role,
+    kind: null,
+    title: '',
+    text: m.translation ? `${m.text}\n${m.translation.text}` : m.text,
+    tags: [],
+    isPinned: false,
+    timestamp: m.startTime ?? m.timestamp,
+  })),
+  // Cards come from the assistant, so a speaker filter of "assistant" keeps them
+  ...session.suggestions.map((s): SearchResult => ({
+    type: 'card',
+    id: s.id,
+    session,
+    role: 'assistant',
+    kind: s.kind,
+    title: s.title,
+    text: s.content,
+    tags: s.tags,
+    isPinned: s.isPinned,
+    timestamp: s.timestamp,
+  })),
+];
+
+const matchesFilters = (result: SearchResult, filters: SearchFilters, now: Date) => {
+  if (filters.pinnedOnly && !result.isPinned) return false;
+  if (filters.speaker !== 'any' && result.role !== filters.speaker) return false;
+  // A card type filter only makes sense for cards
+  if (filters.kind !== 'any' && result.kind !== filters.kind) return false;
+  if (filters.timeRange !== 'all' && now.getTime() - result.timestamp.getTime() > TIME_RANGE_MS[filters.timeRange]) return false;
+  return true;
+};
+
+const searchableText = (result: SearchResult) => [result.title, result.text, ...result.tags.map(tag => `#${tag}`)].join('\n').toLowerCase();
+
+// Every term has to appear somewhere in the item; newest matches first
+export const searchSessions = (sessions: SearchableSession[], query: string, filters: SearchFilters, now = new Date()): SearchResult[] => {
+  const terms = searchTerms(query);
+  if (terms.length === 0 && !hasActiveFilters(filters)) return [];
+  return sessions
+    .flatMap(toResults)
+    .filter(result => matchesFilters(result, filters, now))
+    .filter(result => {
+      const haystack = searchableText(result);
+      return terms.every(term => haystack.includes(term));
+    })
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+    .slice(0, MAX_RESULTS);
+};
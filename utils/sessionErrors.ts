@@ -0,0 +1,119 @@
+import { SessionError, SessionErrorCode } from '../types';
+import { BackendError, BackendFailure } from '../services/backend';
+
+interface SessionErrorCopy {
+  title: string;
+  message: string;
+  // Whether starting again could help without the user changing anything else first
+  canRetry: boolean;
+}
+
+export const SESSION_ERROR_COPY: Record<SessionErrorCode, SessionErrorCopy> = {
+  'insecure-context': {
+    title: 'Insecure Connection',
+    message: 'This app requires HTTPS or localhost to access the microphone and tab audio. Please switch to a secure connection.',
+    canRetry: false,
+  },
+  'unsupported-browser': {
+    title: 'Browser Not Supported',
+    message: 'Media capture is not fully supported here. Use a desktop version of Chrome, Edge or Firefox over HTTPS.',
+    canRetry: false,
+  },
+  'microphone-denied': {
+    title: 'Microphone Blocked',
+    message: "Click the lock icon in the address bar, allow 'Microphone', then try again.",
+    canRetry: true,
+  },
+  'microphone-unavailable': {
+    title: 'No Microphone',
+    message: 'No usable microphone was found. Plug one in or pick another in the audio settings.',
+    canRetry: true,
+  },
+  'tab-share-denied': {
+    title: 'Tab Sharing Cancelled',
+    message: "Allow sharing and tick 'Share tab audio' to capture the other side of the call.",
+    canRetry: true,
+  },
+  'tab-audio-missing': {
+    title: 'No Tab Audio',
+    message: "Tick the 'Share tab audio' box at the bottom-left of the sharing popup. If it is missing, share a Chrome tab rather than a window.",
+    canRetry: true,
+  },
+  'file-unreadable': {
+    title: 'Unreadable Recording',
+    message: 'The audio file could not be decoded. Try a WAV, MP3 or WebM file.',
+    canRetry: false,
+  },
+  'token-server-unreachable': {
+    title: 'Token Server Offline',
+    message: 'Could not reach the token server. Start it with "npm run server" and try again.',
+    canRetry: true,
+  },
+  'token-server-dummy': {
+    title: 'Dummy Token Server',
+    message: 'The token server only issues dummy tokens. Set LIVE_PROVIDER=mock, or give the server a GEMINI_API_KEY.',
+    canRetry: false,
+  },
+  'rate-limited': {
+    title: 'Rate Limited',
+    message: 'Too many sessions were started recently. Wait a while before starting another.',
+    canRetry: true,
+  },
+  'token-rejected': {
+    title: 'Session Refused',
+    message: 'The token server refused to start a live session.',
+    canRetry: true,
+  },
+  'connection-failed': {
+    title: 'Connection Failed',
+    message: 'The live session could not be opened. Please verify your internet and try again.',
+    canRetry: true,
+  },
+  'connection-lost': {
+    title: 'Connection Lost',
+    message: 'The connection dropped and could not be restored. Please verify your internet and restart Viva Guard.',
+    canRetry: true,
+  },
+  'recording-save-failed': {
+    title: 'Recording Not Saved',
+    message: 'The session recording could not be saved.',
+    canRetry: false,
+  },
+  'export-failed': {
+    title: 'Export Failed',
+    message: 'The session could not be exported.',
+    canRetry: false,
+  },
+  unknown: {
+    title: 'Capture Error',
+    message: 'Something went wrong while starting the session.',
+    canRetry: true,
+  },
+};
+
+const BACKEND_ERROR_CODES: Record<BackendFailure, SessionErrorCode> = {
+  unreachable: 'token-server-unreachable',
+  'rate-limited': 'rate-limited',
+  'dummy-token': 'token-server-dummy',
+  rejected: 'token-rejected',
+};
+
+// Thrown by startup steps that already know which error they hit
+export class SessionFailure extends Error {
+  constructor(public code: SessionErrorCode, public detail: string | null = null) {
+    super(detail ?? SESSION_ERROR_COPY[code].message);
+    this.name = 'SessionFailure';
+  }
+}
+
+export const sessionError = (code: SessionErrorCode, detail: string | null = null): SessionError => ({ code, detail });
+
+export const toSessionError = (err: unknown): SessionError => {
+  if (err instanceof SessionFailure) return sessionError(err.code, err.detail);
+  if (err instanceof BackendError) return sessionError(BACKEND_ERROR_CODES[err.reason], err.message);
+  return sessionError('unknown', err instanceof Error ? err.message : String(err));
+};
+
+// One line for the session log
+export const describeSessionError = (error: SessionError) =>
+  error.detail ? `${SESSION_ERROR_COPY[error.code].message} (${error.detail})` : SESSION_ERROR_COPY[error.code].message;
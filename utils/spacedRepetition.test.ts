@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { Flashcard } from '../types';
+import { initialSchedule, isDue, scheduleReview } from './spacedRepetition';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2026-01-01T09:00:00Z');
+
+const newCard = (): Flashcard => ({ id: 'c1', front: 'Nyquist rate?', back: '2 × bandwidth', sessionId: null, createdAt: now, ...initialSchedule(now) });
+
+const daysUntilDue = (card: Flashcard, from: Date) => (card.dueAt.getTime() - from.getTime()) / DAY_MS;
+
+describe('scheduleReview', () => {
+  it('makes a new card due straight away', () => {
+    expect(isDue(newCard(), now)).toBe(true);
+  });
+
+  it('follows the SM-2 intervals of 1 day, 6 days, then interval times ease', () => {
+    const first = scheduleReview(newCard(), 'good', now);
+    expect(first).toMatchObject({ repetitions: 1, intervalDays: 1 });
+    expect(daysUntilDue(first, now)).toBe(1);
+    expect(isDue(first, now)).toBe(false);
+
+    const second = scheduleReview(first, 'good', first.dueAt);
+    expect(second).toMatchObject({ repetitions: 2, intervalDays: 6 });
+
+    const third = scheduleReview(second, 'good', second.dueAt);
+    expect(third.repetitions).toBe(3);
+    expect(third.intervalDays).toBe(Math.round(6 * third.easeFactor));
+    expect(third.lastReviewedAt).toEqual(second.dueAt);
+  });
+
+  it('keeps the ease for good, raises it for easy and lowers it for hard', () => {
+    expect(scheduleReview(newCard(), 'good', now).easeFactor).toBeCloseTo(2.5);
+    expect(scheduleReview(newCard(), 'easy', now).easeFactor).toBeCloseTo(2.6);
+    expect(scheduleReview(newCard(), 'hard', now).easeFactor).toBeCloseTo(2.36);
+  });
+
+  it('resets the repetitions after a lapse', () => {
+    let card = newCard();
+    for (let i = 0; i < 3; i++) card = scheduleReview(card, 'good', now);
+    const lapsed = scheduleReview(card, 'again', now);
+    expect(lapsed).toMatchObject({ repetitions: 0, intervalDays: 1 });
+    expect(lapsed.easeFactor).toBeLessThan(card.easeFactor);
+  });
+
+  it('never lets the ease drop below 1.3', () => {
+    let card = newCard();
+    for (let i = 0; i < 20; i++) card = scheduleReview(card, 'again', now);
+    expect(card.easeFactor).toBe(1.3);
+  });
+});
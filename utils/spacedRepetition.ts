@@ -0,0 +1,47 @@
+import { Flashcard, ReviewGrade } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// SM-2 grades answers 0-5; anything below 3 counts as a lapse
+const GRADE_QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+export type CardSchedule = Pick<Flashcard, 'dueAt' | 'intervalDays' | 'repetitions' | 'easeFactor' | 'lastReviewedAt'>;
+
+export const initialSchedule = (now = new Date()): CardSchedule => ({
+  dueAt: now,
+  intervalDays: 0,
+  repetitions: 0,
+  easeFactor: INITIAL_EASE,
+  lastReviewedAt: null,
+});
+
+export const isDue = (card: Flashcard, now = new Date()) => card.dueAt.getTime() <= now.getTime();
+
+export const scheduleReview = (card: Flashcard, grade: ReviewGrade, now = new Date()): Flashcard => {
+  const quality = GRADE_QUALITY[grade];
+  const easeFactor = Math.max(MIN_EASE, card.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+
+  let repetitions = card.repetitions + 1;
+  let intervalDays: number;
+  if (quality < 3) {
+    repetitions = 0;
+    intervalDays = 1;
+  } else if (repetitions === 1) {
+    intervalDays = 1;
+  } else if (repetitions === 2) {
+    intervalDays = 6;
+  } else {
+    intervalDays = Math.round(card.intervalDays * easeFactor);
+  }
+
+  return {
+    ...card,
+    easeFactor,
+    repetitions,
+    intervalDays,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+    lastReviewedAt: now,
+  };
+};
@@ -0,0 +1,53 @@
+import { AudioSource } from '../types';
+
+// Transcription chunks lag the audio they describe, so look back over a short window of levels
+const ATTRIBUTION_WINDOW_MS = 1500;
+const HISTORY_MS = 5000;
+
+interface LevelSample {
+  time: number;
+  local: number;
+  remote: number;
+}
+
+export interface TranscriptSegment {
+  role: AudioSource;
+  text: string;
+  start: Date;
+  end: Date;
+}
+
+export const measureRms = (analyser: AnalyserNode, scratch: Float32Array<ArrayBuffer>) => {
+  analyser.getFloatTimeDomainData(scratch);
+  let sum = 0;
+  for (let i = 0; i < scratch.length; i++) {
+    sum += scratch[i] * scratch[i];
+  }
+  return Math.sqrt(sum / scratch.length);
+};
+
+export const createSourceEnergyTracker = () => {
+  let samples: LevelSample[] = [];
+
+  return {
+    record(local: number, remote: number, time = Date.now()) {
+      samples.push({ time, local, remote });
+      samples = samples.filter(s => time - s.time <= HISTORY_MS);
+    },
+    // Falls back to the microphone when neither source carried energy (or there is no tab audio)
+    dominantSource(time = Date.now()): AudioSource {
+      let local = 0;
+      let remote = 0;
+      samples.forEach(s => {
+        if (time - s.time <= ATTRIBUTION_WINDOW_MS) {
+          local += s.local;
+          remote += s.remote;
+        }
+      });
+      return remote > local ? 'remote' : 'local';
+    },
+    reset() {
+      samples = [];
+    },
+  };
+};
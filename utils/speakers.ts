@@ -0,0 +1,24 @@
+import { Message, SpeakerRole, SessionMode } from '../types';
+
+export const speakerLabel = (role: SpeakerRole, mode: SessionMode) => {
+  if (mode === 'rehearsal') return role === 'assistant' ? 'Examiner' : 'Student';
+  switch (role) {
+    case 'assistant': return 'AI Assistant';
+    case 'local': return 'You';
+    case 'remote': return 'Remote Speaker';
+    default: return 'Speaker';
+  }
+};
+
+// Typed turns are marked so transcripts and the model can tell them from speech
+export const messageSpeakerLabel = (message: Pick<Message, 'role' | 'type'>, mode: SessionMode) =>
+  message.type === 'typed' ? `${speakerLabel(message.role, mode)} (typed)` : speakerLabel(message.role, mode);
+
+export const speakerSourceHint = (role: SpeakerRole) => {
+  switch (role) {
+    case 'local': return 'Microphone';
+    case 'remote': return 'Tab Audio';
+    case 'assistant': return 'AI Response';
+    default: return 'Audio Captured';
+  }
+};
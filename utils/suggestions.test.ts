@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { Suggestion } from '../types';
+import { capSuggestions, MAX_UNPINNED_SUGGESTIONS, normalizeTag } from './suggestions';
+
+const suggestion = (id: number, isPinned = false): Suggestion => ({
+  id: String(id),
+  kind: 'key-concept',
+  title: `Card ${id}`,
+  content: '',
+  confidence: null,
+  relatedTopics: [],
+  sourceDocument: null,
+  isPinned,
+  tags: [],
+  replyTo: null,
+  timestamp: new Date(0),
+});
+
+describe('capSuggestions', () => {
+  it('keeps the newest unpinned cards up to the limit', () => {
+    const newestFirst = Array.from({ length: MAX_UNPINNED_SUGGESTIONS + 5 }, (_, i) => suggestion(i));
+    const capped = capSuggestions(newestFirst);
+    expect(capped).toHaveLength(MAX_UNPINNED_SUGGESTIONS);
+    expect(capped[0].id).toBe('0');
+  });
+
+  it('keeps pinned cards however old they are, without counting them', () => {
+    const newestFirst = Array.from({ length: MAX_UNPINNED_SUGGESTIONS + 5 }, (_, i) => suggestion(i, i === MAX_UNPINNED_SUGGESTIONS + 4));
+    const capped = capSuggestions(newestFirst);
+    expect(capped).toHaveLength(MAX_UNPINNED_SUGGESTIONS + 1);
+    expect(capped[capped.length - 1].isPinned).toBe(true);
+  });
+});
+
+describe('normalizeTag', () => {
+  it('strips hashes, lower-cases and joins words', () => {
+    expect(normalizeTag('  ##Fourier Transform ')).toBe('fourier-transform');
+  });
+});
@@ -0,0 +1,12 @@
+import { Suggestion } from '../types';
+
+// The feed only shows this many unpinned cards so the newest help stays in view. The session keeps them all.
+export const MAX_UNPINNED_SUGGESTIONS = 15;
+
+// Expects newest-first order, as the live feed keeps it
+export const capSuggestions = (suggestions: Suggestion[]): Suggestion[] => {
+  let unpinned = 0;
+  return suggestions.filter(s => s.isPinned || ++unpinned <= MAX_UNPINNED_SUGGESTIONS);
+};
+
+export const normalizeTag = (tag: string) => tag.trim().replace(/^#+/, '').toLowerCase().replace(/\s+/g, '-');
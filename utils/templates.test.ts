@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { customVariables, renderTemplate, templateVariables } from './templates';
+import { buildTemplateInstruction } from './instructions';
+
+const template = 'Course: {{ course }}. Examiner: {{examiner}}. Notes: {{knowledge_base}}. Again: {{course}}';
+
+describe('templates', () => {
+  it('lists each variable once, in order', () => {
+    expect(templateVariables(template)).toEqual(['course', 'examiner', 'knowledge_base']);
+  });
+
+  it('leaves the built-in variables out of the ones the profile fills in', () => {
+    expect(customVariables(template)).toEqual(['course', 'examiner']);
+  });
+
+  it('fills in values and marks blank or missing ones', () => {
+    expect(renderTemplate(template, { course: 'Signals', examiner: '  ', knowledge_base: 'Sampling' }))
+      .toBe('Course: Signals. Examiner: (not specified). Notes: Sampling. Again: Signals');
+  });
+
+  it('leaves text that only looks like a variable alone', () => {
+    expect(renderTemplate('{{1st}} and {single}', {})).toBe('{{1st}} and {single}');
+  });
+});
+
+describe('buildTemplateInstruction', () => {
+  it('fills the built-in variables from the session', () => {
+    const instruction = buildTemplateInstruction('Docs: {{documents}}. Context: {{knowledge_base}}', {}, 'Signals', 'rehearsal', ['notes.pdf']);
+    expect(instruction).toMatch(/^Docs: notes\.pdf\. Context: Signals/);
+    expect(instruction).toContain('UPLOADED DOCUMENTS: notes.pdf');
+  });
+
+  it('explains typed message tags in assist mode only', () => {
+    expect(buildTemplateInstruction('Help the student.', {}, '', 'assist')).toContain('reply_to');
+    expect(buildTemplateInstruction('Ask questions.', {}, '', 'rehearsal')).not.toContain('reply_to');
+  });
+});
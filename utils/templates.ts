@@ -0,0 +1,18 @@
+const VARIABLE = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+// Filled in from the session itself rather than typed into the profile
+export const BUILTIN_VARIABLES: Record<string, string> = {
+  knowledge_base: 'The knowledge context textarea',
+  documents: 'Names of the uploaded documents',
+  date: "Today's date",
+};
+
+export const templateVariables = (template: string): string[] =>
+  Array.from(new Set(Array.from(template.matchAll(VARIABLE), match => match[1])));
+
+export const customVariables = (template: string): string[] =>
+  templateVariables(template).filter(name => !(name in BUILTIN_VARIABLES));
+
+// Unfilled variables become "(not specified)" so the model never sees raw braces
+export const renderTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(VARIABLE, (_, name: string) => values[name]?.trim() || '(not specified)');
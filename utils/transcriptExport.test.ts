@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { Message, SavedSession } from '../types';
+import { parseSessionJson, toJson, toSrt, toVtt } from './transcriptExport';
+
+const startedAt = new Date('2026-03-02T10:00:00Z');
+const at = (seconds: number) => new Date(startedAt.getTime() + seconds * 1000);
+
+const message = (id: string, role: Message['role'], text: string, start: number, end: number): Message => ({
+  id, role, type: 'speech', text, timestamp: at(end), startTime: at(start), endTime: at(end), replyTo: null,
+});
+
+const session = (messages: Message[]): SavedSession => ({
+  id: 'session-1',
+  name: 'Viva',
+  mode: 'assist',
+  knowledgeBase: '',
+  startedAt,
+  endedAt: at(3600),
+  messages,
+  suggestions: [],
+  scoreCards: [],
+  errors: [],
+  report: null,
+  recording: null,
+  consent: null,
+  language: null,
+  outline: [],
+});
+
+describe('subtitle export', () => {
+  const turns = session([
+    message('m1', 'remote', 'What is the Nyquist rate?', 1.5, 4),
+    message('m2', 'local', 'Twice the bandwidth.', 3725, 3725.2),
+  ]);
+
+  it('writes numbered SRT cues with comma milliseconds and the speaker', () => {
+    expect(toSrt(turns)).toBe(
+      '1\n00:00:01,500 --> 00:00:04,000\nRemote Speaker: What is the Nyquist rate?\n\n' +
+      '2\n01:02:05,000 --> 01:02:06,000\nYou: Twice the bandwidth.\n'
+    );
+  });
+
+  it('writes WebVTT voice spans and pads very short turns to a second', () => {
+    expect(toVtt(turns)).toBe(
+      'WEBVTT\n\n' +
+      '00:00:01.500 --> 00:00:04.000\n<v Remote Speaker>What is the Nyquist rate?\n\n' +
+      '01:02:05.000 --> 01:02:06.000\n<v You>Twice the bandwidth.\n'
+    );
+  });
+
+  it('escapes markup, arrows and blank lines in WebVTT cue text', () => {
+    const vtt = toVtt(session([message('m1', 'remote', 'if a < b && c > d\n\nthen x --> y', 0, 2)]));
+    const cue = vtt.split('\n').slice(3).join('\n');
+    expect(cue).toBe('<v Remote Speaker>if a &lt; b &amp;&amp; c &gt; d\nthen x --&gt; y\n');
+  });
+
+  it('puts the translation on a second line of the cue', () => {
+    const translated = { ...message('m1', 'remote', 'Hello', 0, 2), translation: { language: 'de-DE', text: 'Hallo' } };
+    expect(toSrt(session([translated]))).toContain('Remote Speaker: Hello\nHallo\n');
+  });
+});
+
+describe('JSON export', () => {
+  it('round-trips a session with its dates', () => {
+    const original = session([message('m1', 'remote', 'Hello', 0, 2)]);
+    const parsed = parseSessionJson(toJson(original));
+    expect(parsed).toEqual(original);
+    expect(parsed.messages[0].startTime).toBeInstanceOf(Date);
+  });
+
+  it('rejects files that are not session exports', () => {
+    expect(() => parseSessionJson('{"format":"something-else"}')).toThrow('not a Viva Guard session export');
+  });
+
+  it('rejects exports from a newer format version', () => {
+    const newer = JSON.stringify({ ...JSON.parse(toJson(session([]))), version: 99 });
+    expect(() => parseSessionJson(newer)).toThrow('newer version (format v99)');
+  });
+
+  it.each([
+    ['a null message', { messages: [null] }],
+    ['a message without text', { messages: [{ id: 'm1', role: 'local', timestamp: startedAt }] }],
+    ['a card that is not an object', { suggestions: ['card'] }],
+    ['a score card without a score', { scoreCards: [{ id: 's1', question: 'Q', timestamp: startedAt }] }],
+    ['a missing start date', { startedAt: undefined }],
+  ])('rejects %s', (_, override) => {
+    const broken = toJson({ ...session([]), ...override } as unknown as SavedSession);
+    expect(() => parseSessionJson(broken)).toThrow('incomplete or corrupted');
+  });
+
+  it('accepts version 1 exports without the later collections', () => {
+    const { suggestions, scoreCards, ...v1 } = session([message('m1', 'user', 'Hello', 0, 2)]);
+    const text = JSON.stringify({ format: 'viva-guard-session', version: 1, session: v1 });
+    expect(parseSessionJson(text).messages).toHaveLength(1);
+  });
+});
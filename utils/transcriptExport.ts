@@ -0,0 +1,172 @@
+import { Message, SavedSession, ExportFormat, StudyReport, OutlineSection } from '../types';
+import { speakerLabel, messageSpeakerLabel } from './speakers';
+import { languageName } from './languages';
+
+const JSON_FORMAT_ID = 'viva-guard-session';
+// v2 added card kinds, sources, pins and tags, the report, recording, consent, language, translations, typed messages and the outline.
+// Older versions still import: missing fields are filled in when the session is loaded.
+const JSON_FORMAT_VERSION = 2;
+const DATE_KEYS = new Set(['timestamp', 'startedAt', 'endedAt', 'startTime', 'endTime', 'generatedAt', 'acceptedAt']);
+
+// Caption players skip zero-length cues, so very short turns are padded
+const MIN_CUE_MS = 1000;
+
+const turnStart = (m: Message) => m.startTime ?? m.timestamp;
+const turnEnd = (m: Message) => m.endTime ?? m.timestamp;
+
+const formatOffset = (ms: number, separator: ',' | '.') => {
+  const clamped = Math.max(0, Math.round(ms));
+  const hours = Math.floor(clamped / 3600000);
+  const minutes = Math.floor((clamped % 3600000) / 60000);
+  const seconds = Math.floor((clamped % 60000) / 1000);
+  const millis = clamped % 1000;
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+};
+
+interface Cue {
+  start: number;
+  end: number;
+  speaker: string;
+  text: string;
+}
+
+const buildCues = (session: SavedSession): Cue[] => {
+  const origin = session.startedAt.getTime();
+  return session.messages.map(m => {
+    const start = turnStart(m).getTime() - origin;
+    const end = Math.max(turnEnd(m).getTime() - origin, start + MIN_CUE_MS);
+    // Bilingual subtitles conventionally carry the translation as a second line of the same cue
+    const text = m.translation ? `${m.text.trim()}\n${m.translation.text.trim()}` : m.text.trim();
+    return { start, end, speaker: messageSpeakerLabel(m, session.mode), text };
+  });
+};
+
+const reportToMarkdown = (report: StudyReport, session: SavedSession): string[] => {
+  const section = (title: string, items: string[]) => ['', `### ${title}`, '', ...(items.length ? items : ['_None._'])];
+  return [
+    '## Study Report',
+    ...section('Questions', report.questions.map((q, idx) =>
+      `${idx + 1}. **${q.question}** (${speakerLabel(q.askedBy, session.mode)})\n   ${q.answerSummary}`)),
+    ...section('Topics to Revisit', report.unsureTopics.map(t => `- **${t.topic}**: ${t.evidence}`)),
+    ...section('Follow-up Reading', report.followUpReading.map(r =>
+      `- **${r.topic}**${r.documentName ? ` (${r.documentName})` : ''}: ${r.excerpt.replace(/\s+/g, ' ')}`)),
+    '',
+  ];
+};
+
+const outlineToMarkdown = (outline: OutlineSection[]): string[] => [
+  '## Outline',
+  ...outline.flatMap(section => [
+    '',
+    `### ${section.title} (${section.startTime.toLocaleTimeString()}–${section.endTime.toLocaleTimeString()})`,
+    '',
+    ...(section.summary ? [section.summary, ''] : []),
+    ...section.points.map(p => `- ${p.text} _(${p.timestamp.toLocaleTimeString()})_`),
+  ]),
+  '',
+];
+
+export const toMarkdown = (session: SavedSession): string => {
+  const lines = [
+    `# ${session.name}`,
+    '',
+    `- **Started:** ${session.startedAt.toLocaleString()}`,
+    `- **Ended:** ${session.endedAt ? session.endedAt.toLocaleString() : 'Unfinished'}`,
+    `- **Mode:** ${session.mode === 'rehearsal' ? 'Mock viva rehearsal' : 'Live assist'}`,
+    `- **Language:** ${session.language ? languageName(session.language) : 'Detected automatically'}`,
+    `- **Consent:** ${session.consent ? `Accepted ${session.consent.acceptedAt.toLocaleString()}. "${session.consent.statement}"` : 'Not recorded'}`,
+    '',
+    ...(session.outline.length > 0 ? outlineToMarkdown(session.outline) : []),
+    ...(session.report ? reportToMarkdown(session.report, session) : []),
+    ...(session.outline.length > 0 || session.report ? ['## Transcript', ''] : []),
+  ];
+  session.messages.forEach(m => {
+    lines.push(`### ${messageSpeakerLabel(m, session.mode)} — ${turnStart(m).toLocaleTimeString()}`, '', m.text.trim(), '');
+    if (m.translation) {
+      lines.push(`> _${languageName(m.translation.language)}:_ ${m.translation.text.trim().replace(/\n/g, '\n> ')}`, '');
+    }
+  });
+  return lines.join('\n');
+};
+
+export const toJson = (session: SavedSession): string =>
+  JSON.stringify({ format: JSON_FORMAT_ID, version: JSON_FORMAT_VERSION, session }, null, 2);
+
+export const toSrt = (session: SavedSession): string =>
+  buildCues(session)
+    .map((cue, idx) => `${idx + 1}\n${formatOffset(cue.start, ',')} --> ${formatOffset(cue.end, ',')}\n${cue.speaker}: ${cue.text}\n`)
+    .join('\n');
+
+// Cue text is parsed as markup and a blank line or an arrow ends the cue, so all three are made inert
+const escapeVtt = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/\n\s*\n/g, '\n');
+
+export const toVtt = (session: SavedSession): string =>
+  ['WEBVTT', '', ...buildCues(session).map(cue =>
+    `${formatOffset(cue.start, '.')} --> ${formatOffset(cue.end, '.')}\n<v ${escapeVtt(cue.speaker)}>${escapeVtt(cue.text)}\n`
+  )].join('\n');
+
+const isRecord = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null;
+
+// Only the fields every format version has; the rest are filled in by the session store
+const isMessageEntry = (m: unknown) =>
+  isRecord(m) && typeof m.id === 'string' && typeof m.role === 'string' && typeof m.text === 'string' && m.timestamp instanceof Date;
+
+const isSuggestionEntry = (s: unknown) =>
+  isRecord(s) && typeof s.id === 'string' && typeof s.title === 'string' && typeof s.content === 'string' && s.timestamp instanceof Date;
+
+const isScoreCardEntry = (c: unknown) =>
+  isRecord(c) && typeof c.id === 'string' && typeof c.question === 'string' && typeof c.score === 'number' && c.timestamp instanceof Date;
+
+const isListOf = (value: unknown, isEntry: (item: unknown) => boolean, optional = false) =>
+  (optional && value === undefined) || (Array.isArray(value) && value.every(isEntry));
+
+export const parseSessionJson = (text: string): SavedSession => {
+  const parsed = JSON.parse(text, (key, value) =>
+    DATE_KEYS.has(key) && typeof value === 'string' ? new Date(value) : value
+  );
+  if (parsed?.format !== JSON_FORMAT_ID || !parsed.session) {
+    throw new Error('This file is not a Viva Guard session export.');
+  }
+  if (parsed.version > JSON_FORMAT_VERSION) {
+    throw new Error(`This export was made by a newer version (format v${parsed.version}).`);
+  }
+  const session = parsed.session as SavedSession;
+  if (
+    !session.id ||
+    !(session.startedAt instanceof Date) ||
+    !isListOf(session.messages, isMessageEntry) ||
+    !isListOf(session.suggestions, isSuggestionEntry, true) ||
+    !isListOf(session.scoreCards, isScoreCardEntry, true)
+  ) {
+    throw new Error('The session export is incomplete or corrupted.');
+  }
+  return session;
+};
+
+const EXPORTERS: Record<ExportFormat, { render: (s: SavedSession) => string; extension: string; mimeType: string }> = {
+  markdown: { render: toMarkdown, extension: 'md', mimeType: 'text/markdown' },
+  json: { render: toJson, extension: 'json', mimeType: 'application/json' },
+  srt: { render: toSrt, extension: 'srt', mimeType: 'application/x-subrip' },
+  vtt: { render: toVtt, extension: 'vtt', mimeType: 'text/vtt' },
+};
+
+export const downloadText = (content: string, fileName: string, mimeType: string) => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadSession = (session: SavedSession, format: ExportFormat) => {
+  const exporter = EXPORTERS[format];
+  const baseName = session.name.replace(/[^\w\- ]+/g, '').trim() || 'session';
+  downloadText(exporter.render(session), `${baseName}.${exporter.extension}`, exporter.mimeType);
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { analyseFrame, createSpeechGate, createVoiceActivityDetector, VadEvent } from './vad';
+
+const SAMPLE_RATE = 16000;
+const FRAME_SIZE = 320;
+const FRAME_MS = (FRAME_SIZE / SAMPLE_RATE) * 1000;
+
+const silence = () => new Int16Array(FRAME_SIZE);
+// A 300 Hz tone crosses zero 600 times a second, well inside the range speech covers
+const tone = (amplitude: number, frequency = 300) =>
+  Int16Array.from({ length: FRAME_SIZE }, (_, i) => Math.round(amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE)));
+
+const feed = (frames: Int16Array[], hangOverMs = 200) => {
+  const detector = createVoiceActivityDetector({ sampleRate: SAMPLE_RATE, hangOverMs });
+  const events: VadEvent[] = [];
+  frames.forEach((frame, idx) => {
+    const event = detector.process(frame, (idx + 1) * FRAME_MS);
+    if (event) events.push(event);
+  });
+  return { events, detector };
+};
+
+const repeat = (count: number, frame: () => Int16Array) => Array.from({ length: count }, frame);
+
+describe('analyseFrame', () => {
+  it('measures loudness and zero crossings', () => {
+    expect(analyseFrame(silence())).toEqual({ rms: 0, zeroCrossingRate: 0 });
+    const { rms, zeroCrossingRate } = analyseFrame(tone(0x4000));
+    expect(rms).toBeCloseTo(0.5 / Math.SQRT2, 2);
+    expect(zeroCrossingRate).toBeCloseTo(600 / SAMPLE_RATE, 2);
+  });
+});
+
+describe('createVoiceActivityDetector', () => {
+  it('starts speech after the onset time and ends it after the hang-over', () => {
+    const { events } = feed([...repeat(10, silence), ...repeat(10, () => tone(3000)), ...repeat(20, silence)]);
+    expect(events).toEqual([
+      { type: 'speech-start', at: 10 * FRAME_MS },
+      { type: 'speech-end', at: 20 * FRAME_MS },
+    ]);
+  });
+
+  it('ignores a click shorter than the onset time', () => {
+    expect(feed([...repeat(10, silence), tone(3000), ...repeat(10, silence)]).events).toEqual([]);
+  });
+
+  it('ignores mains hum, which crosses zero too rarely', () => {
+    expect(feed(repeat(20, () => tone(3000, 50))).events).toEqual([]);
+  });
+
+  it('learns the level of background hiss and then needs speech well above it', () => {
+    // 4 kHz crosses zero too often to be voiced, so it only raises the noise floor
+    const hiss = () => tone(2000, 4000);
+    const { events } = feed([...repeat(200, hiss), ...repeat(10, () => tone(2000)), ...repeat(10, () => tone(8000))]);
+    expect(events).toEqual([{ type: 'speech-start', at: 210 * FRAME_MS }]);
+  });
+
+  it('keeps talking through pauses shorter than the hang-over', () => {
+    const { events, detector } = feed([...repeat(5, () => tone(3000)), ...repeat(5, silence), ...repeat(5, () => tone(3000))]);
+    expect(events).toEqual([{ type: 'speech-start', at: 0 }]);
+    expect(detector.isSpeaking()).toBe(true);
+  });
+});
+
+describe('createSpeechGate', () => {
+  it('holds back silence and releases the pre-roll with the first speech frame', () => {
+    const gate = createSpeechGate<number>(2);
+    expect(gate.push(1, false)).toEqual({ send: [], dropped: [], closed: false });
+    expect(gate.push(2, false).dropped).toEqual([]);
+    expect(gate.push(3, false).dropped).toEqual([1]);
+    expect(gate.push(4, true)).toEqual({ send: [2, 3, 4], dropped: [], closed: false });
+    expect(gate.push(5, true).send).toEqual([5]);
+  });
+
+  it('reports closing once when speech stops', () => {
+    const gate = createSpeechGate<number>(1);
+    gate.push(1, true);
+    expect(gate.push(2, false).closed).toBe(true);
+    expect(gate.push(3, false).closed).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+// Energy plus zero-crossing voice activity detection for 16 kHz Int16 frames.
+// Zero crossings reject what energy alone lets through: mains hum crosses too rarely, hiss and fans too often.
+const MIN_SPEECH_RMS = 0.004;
+// How far above the running noise floor a frame must be, roughly 10 dB
+const SPEECH_TO_NOISE = 3;
+const MIN_ZERO_CROSSING_RATE = 0.01;
+const MAX_ZERO_CROSSING_RATE = 0.35;
+const INITIAL_NOISE_FLOOR = 0.002;
+// The floor drops quickly when the room gets quieter and creeps up slowly so speech is not learnt as noise
+const NOISE_FALL_RATE = 0.5;
+const NOISE_RISE_RATE = 0.02;
+// Voiced audio must last this long to count, so clicks and knocks do not open the stream
+const ONSET_MS = 60;
+
+export interface FrameFeatures {
+  rms: number;
+  // Sign changes per sample
+  zeroCrossingRate: number;
+}
+
+export type VadEvent = { type: 'speech-start'; at: number } | { type: 'speech-end'; at: number };
+
+export interface VadOptions {
+  sampleRate: number;
+  // Speech stays on for this long after the last voiced frame so pauses between words do not cut it up
+  hangOverMs: number;
+}
+
+export const analyseFrame = (samples: Int16Array): FrameFeatures => {
+  let sum = 0;
+  let crossings = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const value = samples[i] / 0x8000;
+    sum += value * value;
+    if (i > 0 && (samples[i] >= 0) !== (samples[i - 1] >= 0)) crossings++;
+  }
+  return {
+    rms: samples.length ? Math.sqrt(sum / samples.length) : 0,
+    zeroCrossingRate: samples.length > 1 ? crossings / (samples.length - 1) : 0,
+  };
+};
+
+export const createVoiceActivityDetector = ({ sampleRate, hangOverMs }: VadOptions) => {
+  let noiseFloor = INITIAL_NOISE_FLOOR;
+  let isSpeech = false;
+  let voicedSince: number | null = null;
+  let lastVoicedAt = 0;
+
+  return {
+    // `time` is when the frame ended, in ms. Returns an event when the speech state flips.
+    process(samples: Int16Array, time: number): VadEvent | null {
+      const { rms, zeroCrossingRate } = analyseFrame(samples);
+      const isVoiced = rms >= MIN_SPEECH_RMS
+        && rms >= noiseFloor * SPEECH_TO_NOISE
+        && zeroCrossingRate >= MIN_ZERO_CROSSING_RATE
+        && zeroCrossingRate <= MAX_ZERO_CROSSING_RATE;
+
+      if (isVoiced) {
+        const frameStart = time - (samples.length / sampleRate) * 1000;
+        voicedSince = voicedSince ?? frameStart;
+        lastVoicedAt = time;
+      } else {
+        voicedSince = null;
+        noiseFloor += (rms - noiseFloor) * (rms < noiseFloor ? NOISE_FALL_RATE : NOISE_RISE_RATE);
+      }
+
+      if (!isSpeech && voicedSince !== null && time - voicedSince >= ONSET_MS) {
+        isSpeech = true;
+        return { type: 'speech-start', at: voicedSince };
+      }
+      if (isSpeech && time - lastVoicedAt > hangOverMs) {
+        isSpeech = false;
+        return { type: 'speech-end', at: lastVoicedAt };
+      }
+      return null;
+    },
+    isSpeaking: () => isSpeech,
+  };
+};
+
+export type VoiceActivityDetector = ReturnType<typeof createVoiceActivityDetector>;
+
+export interface SpeechGate<T> {
+  // `send` is what to stream now; `dropped` fell out of the pre-roll and will never be sent
+  push: (frame: T, isSpeech: boolean) => { send: T[]; dropped: T[]; closed: boolean };
+}
+
+// Holds back non-speech frames, keeping the last few so the start of the next utterance is not clipped
+export const createSpeechGate = <T>(preRollFrames: number): SpeechGate<T> => {
+  let isOpen = false;
+  let preRoll: T[] = [];
+
+  return {
+    push(frame, isSpeech) {
+      if (isSpeech) {
+        const send = [...preRoll, frame];
+        preRoll = [];
+        isOpen = true;
+        return { send, dropped: [], closed: false };
+      }
+      const closed = isOpen;
+      isOpen = false;
+      preRoll.push(frame);
+      const dropped = preRoll.length > preRollFrames ? preRoll.splice(0, preRoll.length - preRollFrames) : [];
+      return { send: [], dropped, closed };
+    },
+  };
+};
@@ -8,11 +8,16 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The Gemini key lives only in the token server (npm run server).
+        // xfwd passes the browser's address on, which the server rate limits by.
+        proxy: {
+          '/api': { target: `http://localhost:${env.TOKEN_PROXY_PORT || 8787}`, xfwd: true },
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.LIVE_PROVIDER': JSON.stringify(env.LIVE_PROVIDER),
+        'process.env.TOKEN_SERVER_URL': JSON.stringify(env.TOKEN_SERVER_URL ?? '')
       },
       resolve: {
         alias: {